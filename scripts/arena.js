@@ -0,0 +1,169 @@
+// Headless AI arena: round-robin bot matches with win rates, Elo and confidence intervals.
+// Usage: npm run arena -- [options]   (see --help)
+const esbuild = require('esbuild');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const DEFAULT_MODES = ['SOCCER', 'VOLLEYBALL'];
+
+const usage = `Usage: npm run arena -- [options]
+
+  --entrants a,b,...   built-in bots: pid, easy, normal, hard, expert (default: pid,easy,normal,hard)
+  --module <file>      add the entrants a TS/JS module exports (repeatable)
+  --policy <file>      add a trained policy from npm run train (repeatable)
+  --modes A,B,...      game modes (default: SOCCER and VOLLEYBALL, where two entrants play them)
+  --matches <n>        matches per pairing per mode (default: 20)
+  --seed <n>           schedule seed (default: 1)
+  --rules <id>         rule set preset id (default: classic)
+  --tick-limit <n>     ticks before a match goes to the leader (default: 3 minutes)
+  --json <file>        write the JSON report here (default: print it)
+  --csv <file>         also write a CSV report
+  --quiet              no progress output
+
+A module exports an entrant or a list of them, as \`default\` or \`entrants\`:
+  export default { name: 'my-bot', create: (match, seed) => new MyBot(match.rules) };`;
+
+function parseArgs(argv) {
+  const options = {
+    entrants: ['pid', 'easy', 'normal', 'hard'],
+    modules: [],
+    policies: [],
+    modes: null,
+    matches: 20,
+    seed: 1,
+    rules: 'classic',
+    tickLimit: undefined,
+    json: null,
+    csv: null,
+    quiet: false,
+  };
+  const list = (value) => value.split(',').map((item) => item.trim()).filter(Boolean);
+  const integer = (flag, value) => {
+    const n = Number(value);
+    if (!Number.isInteger(n)) throw new Error(`${flag} needs an integer, got "${value}"`);
+    return n;
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    const value = () => {
+      if (i + 1 >= argv.length) throw new Error(`${flag} needs a value`);
+      return argv[++i];
+    };
+    switch (flag) {
+      case '--entrants': options.entrants = list(value()); break;
+      case '--module': options.modules.push(path.resolve(value())); break;
+      case '--policy': options.policies.push(value()); break;
+      case '--modes': options.modes = list(value()).map((mode) => mode.toUpperCase()); break;
+      case '--matches': options.matches = integer(flag, value()); break;
+      case '--seed': options.seed = integer(flag, value()); break;
+      case '--rules': options.rules = value(); break;
+      case '--tick-limit': options.tickLimit = integer(flag, value()); break;
+      case '--json': options.json = value(); break;
+      case '--csv': options.csv = value(); break;
+      case '--quiet': options.quiet = true; break;
+      case '--help': case '-h': console.log(usage); process.exit(0); break;
+      default: throw new Error(`Unknown option: ${flag}`);
+    }
+  }
+  return options;
+}
+
+// Bundle the arena, the built-in modes and the user modules into one CommonJS file, so they all
+// share one mode registry and one copy of the game code
+async function loadArena(modules) {
+  const imports = modules.map((file, i) => `import * as userModule${i} from ${JSON.stringify(file)};`);
+  const contents = [
+    "import '../src/app/index.ts';",
+    ...imports,
+    "export * from '../src/arena/index.ts';",
+    "export { getRulePreset } from '../src/base/index.ts';",
+    "export { MLPPolicy } from '../src/ai/index.ts';",
+    `export const userModules = [${modules.map((_, i) => `userModule${i}`).join(', ')}];`,
+  ].join('\n');
+
+  const outfile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'slime-arena-')), 'arena.js');
+  await esbuild.build({
+    stdin: { contents, resolveDir: __dirname, sourcefile: 'arena-entry.ts', loader: 'ts' },
+    bundle: true,
+    format: 'cjs',
+    platform: 'node',
+    target: 'es2020',
+    outfile,
+    logLevel: 'error',
+  });
+  return require(outfile);
+}
+
+function userEntrants(userModule, file) {
+  const exported = userModule.entrants ?? userModule.default;
+  const entrants = Array.isArray(exported) ? exported : exported ? [exported] : [];
+  if (entrants.length === 0) throw new Error(`${file} exports no entrants (use default or \`entrants\`)`);
+  for (const entrant of entrants) {
+    if (typeof entrant.name !== 'string' || typeof entrant.create !== 'function') {
+      throw new Error(`${file}: an entrant needs a name and a create(match, seed) function`);
+    }
+  }
+  return entrants;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const arena = await loadArena(options.modules);
+  const rules = arena.getRulePreset(options.rules);
+  if (rules.id !== options.rules) throw new Error(`Unknown rule set: ${options.rules}`);
+
+  const entrants = [
+    ...options.entrants.map((name) => arena.getBuiltinEntrant(name)),
+    ...arena.userModules.flatMap((userModule, i) => userEntrants(userModule, options.modules[i])),
+  ];
+  // Policies go by their name, or by their file name if that is taken
+  for (const file of options.policies) {
+    const policy = arena.MLPPolicy.fromWeights(JSON.parse(fs.readFileSync(file, 'utf8')));
+    const taken = entrants.some((entrant) => entrant.name === policy.name);
+    entrants.push(arena.learnedPolicyEntrant(policy, taken ? path.basename(file, '.json') : policy.name));
+  }
+
+  // By default, the standard modes that at least two entrants play (learned policies play one)
+  const modes = options.modes ?? DEFAULT_MODES.filter((mode) =>
+    entrants.filter((entrant) => !entrant.modes || entrant.modes.includes(mode)).length >= 2);
+  if (modes.length === 0) throw new Error(`No two entrants share a mode among ${DEFAULT_MODES.join(', ')}; pick --modes`);
+
+  const started = Date.now();
+  const report = arena.runArena({
+    entrants,
+    modes,
+    rules,
+    matchesPerPairing: options.matches,
+    seed: options.seed,
+    tickLimit: options.tickLimit,
+  }, (result, done, total) => {
+    if (options.quiet) return;
+    const outcome = result.winner === null ? 'draw' : `${result.winner} wins`;
+    process.stderr.write(`[${done}/${total}] ${result.mode} ${result.left} vs ${result.right} `
+      + `${result.score[0]}-${result.score[1]} (${outcome}, seed ${result.seed})\n`);
+  });
+
+  const json = JSON.stringify(report, null, 2);
+  if (options.json) fs.writeFileSync(options.json, json + '\n');
+  else console.log(json);
+  if (options.csv) fs.writeFileSync(options.csv, arena.arenaToCsv(report));
+
+  if (!options.quiet) {
+    for (const { mode, standings } of report.modes) {
+      process.stderr.write(`\n${mode}\n`);
+      for (const s of standings) {
+        process.stderr.write(`  ${s.name.padEnd(16)} Elo ${s.elo.toFixed(0)} [${s.eloLow.toFixed(0)}, ${s.eloHigh.toFixed(0)}]  `
+          + `score ${(s.score * 100).toFixed(1)}% [${(s.scoreLow * 100).toFixed(1)}, ${(s.scoreHigh * 100).toFixed(1)}]  `
+          + `${s.wins}-${s.draws}-${s.losses}\n`);
+      }
+    }
+    process.stderr.write(`\n${report.matches} matches in ${((Date.now() - started) / 1000).toFixed(1)}s\n`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
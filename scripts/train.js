@@ -0,0 +1,172 @@
+// Self-play trainer: evolves a small neural-network policy for one mode and saves it as JSON.
+// Usage: npm run train -- [options]   (see --help)
+const esbuild = require('esbuild');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const usage = `Usage: npm run train -- [options]
+
+  --mode <id>            game mode to learn (default: SOCCER)
+  --opponents a,b,...    bots to train against: pid, easy, normal, hard, expert (default: pid)
+  --generations <n>      generations to run (default: 100)
+  --population <n>       candidates per generation (default: 4 + 3 ln(weights))
+  --hidden <n,...>       hidden layer sizes (default: 16)
+  --sigma <x>            starting mutation step size (default: 0.5)
+  --games <n>            games per candidate against each opponent (default: 2)
+  --self-play <n>        games per candidate against earlier snapshots (default: 2)
+  --snapshot-every <n>   generations between self-play snapshots (default: 10)
+  --tick-limit <n>       ticks per training game (default: 30 seconds)
+  --rules <id>           rule set preset id (default: classic)
+  --seed <n>             random seed (default: 1)
+  --name <name>          policy name (default: learned-<mode>)
+  --out <file>           weights file (default: <name>.json)
+  --init <file>          keep training a saved policy
+  --checkpoint-every <n> also save every n generations (default: 10)
+  --quiet                no progress output`;
+
+function parseArgs(argv) {
+  const options = {
+    mode: 'SOCCER',
+    opponents: ['pid'],
+    generations: 100,
+    population: undefined,
+    hidden: [16],
+    sigma: 0.5,
+    games: 2,
+    selfPlay: 2,
+    snapshotEvery: 10,
+    tickLimit: 30 * 60,
+    rules: 'classic',
+    seed: 1,
+    name: null,
+    out: null,
+    init: null,
+    checkpointEvery: 10,
+    quiet: false,
+  };
+  const list = (value) => value.split(',').map((item) => item.trim()).filter(Boolean);
+  const number = (flag, value, check = Number.isFinite) => {
+    const n = Number(value);
+    if (!check(n)) throw new Error(`${flag} needs a number, got "${value}"`);
+    return n;
+  };
+  const count = (flag, value, min = 0) => number(flag, value, (n) => Number.isInteger(n) && n >= min);
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    const value = () => {
+      if (i + 1 >= argv.length) throw new Error(`${flag} needs a value`);
+      return argv[++i];
+    };
+    switch (flag) {
+      case '--mode': options.mode = value().toUpperCase(); break;
+      case '--opponents': options.opponents = list(value()); break;
+      case '--generations': options.generations = count(flag, value(), 1); break;
+      case '--population': options.population = count(flag, value(), 2); break;
+      case '--hidden': options.hidden = list(value()).map((size) => count(flag, size, 1)); break;
+      case '--sigma': options.sigma = number(flag, value(), (n) => n > 0); break;
+      case '--games': options.games = count(flag, value()); break;
+      case '--self-play': options.selfPlay = count(flag, value()); break;
+      case '--snapshot-every': options.snapshotEvery = count(flag, value(), 1); break;
+      case '--tick-limit': options.tickLimit = count(flag, value(), 1); break;
+      case '--rules': options.rules = value(); break;
+      case '--seed': options.seed = count(flag, value()); break;
+      case '--name': options.name = value(); break;
+      case '--out': options.out = value(); break;
+      case '--init': options.init = value(); break;
+      case '--checkpoint-every': options.checkpointEvery = count(flag, value(), 1); break;
+      case '--quiet': options.quiet = true; break;
+      case '--help': case '-h': console.log(usage); process.exit(0); break;
+      default: throw new Error(`Unknown option: ${flag}`);
+    }
+  }
+  options.name = options.name ?? `learned-${options.mode.toLowerCase()}`;
+  options.out = options.out ?? `${options.name}.json`;
+  return options;
+}
+
+// Bundle the trainer with the built-in modes into one CommonJS file
+async function loadTrainer() {
+  const contents = [
+    "import '../src/app/index.ts';",
+    "export * from '../src/learning/index.ts';",
+    "export { getBuiltinEntrant } from '../src/arena/index.ts';",
+    "export { MLPPolicy } from '../src/ai/index.ts';",
+    "export { getRulePreset, getGameMode } from '../src/base/index.ts';",
+  ].join('\n');
+
+  const outfile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'slime-train-')), 'train.js');
+  await esbuild.build({
+    stdin: { contents, resolveDir: __dirname, sourcefile: 'train-entry.ts', loader: 'ts' },
+    bundle: true,
+    format: 'cjs',
+    platform: 'node',
+    target: 'es2020',
+    outfile,
+    logLevel: 'error',
+  });
+  return require(outfile);
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const lib = await loadTrainer();
+  const rules = lib.getRulePreset(options.rules);
+  if (rules.id !== options.rules) throw new Error(`Unknown rule set: ${options.rules}`);
+  if (lib.getGameMode(options.mode).solo) throw new Error(`${options.mode} is a solo mode; training needs an opponent`);
+
+  const initial = options.init ? lib.MLPPolicy.fromWeights(JSON.parse(fs.readFileSync(options.init, 'utf8'))) : undefined;
+  if (initial && initial.mode !== options.mode) {
+    throw new Error(`${options.init} is a ${initial.mode} policy, not ${options.mode}`);
+  }
+
+  const trainer = new lib.SelfPlayTrainer({
+    mode: options.mode,
+    rules,
+    name: options.name,
+    hidden: options.hidden,
+    opponents: options.opponents.map((name) => lib.getBuiltinEntrant(name)),
+    seed: options.seed,
+    sigma: options.sigma,
+    populationSize: options.population,
+    gamesPerOpponent: options.games,
+    selfPlayGames: options.selfPlay,
+    snapshotEvery: options.snapshotEvery,
+    tickLimit: options.tickLimit,
+    initial,
+  });
+
+  const started = Date.now();
+  let last = null;
+  const save = () => {
+    const weights = trainer.policy().toWeights({
+      opponents: options.opponents,
+      generations: trainer.generation,
+      layerSizes: trainer.layerSizes,
+      rules: rules.id,
+      seed: options.seed,
+      tickLimit: options.tickLimit,
+      selfPlayGames: options.selfPlay,
+      meanFitness: last ? last.meanFitness : null,
+      init: options.init ? path.basename(options.init) : null,
+    });
+    fs.writeFileSync(options.out, JSON.stringify(weights) + '\n');
+  };
+
+  for (let generation = 0; generation < options.generations; generation++) {
+    last = trainer.runGeneration();
+    if (!options.quiet) {
+      process.stderr.write(`gen ${last.generation}: best ${last.bestFitness.toFixed(3)} mean ${last.meanFitness.toFixed(3)} `
+        + `step ${last.stepSize.toFixed(3)} snapshots ${last.snapshots} (${((Date.now() - started) / 1000).toFixed(1)}s)\n`);
+    }
+    if (last.generation % options.checkpointEvery === 0) save();
+  }
+  save();
+  if (!options.quiet) process.stderr.write(`Saved ${options.out}\n`);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -1,12 +1,62 @@
 import type * as Base from '../base/index.js';
+import { NORMAL_DIFFICULTY, type AIDifficulty } from './Difficulty.js';
+import { BallPerception, seededRandom } from './Perception.js';
 
 export abstract class AIBase {
+  // Seeded per bot: difficulty noise and candidate sampling replay identically
+  protected readonly random: () => number;
+  private readonly perception: BallPerception;
+
+  // The match's rules: AIs (and their rollouts) must predict with the same physics as live play.
+  // The difficulty only affects AIs that read it (see perceive/scaledHorizon/withinBudget).
+  constructor(
+    protected readonly rules: Base.RuleSet,
+    protected readonly difficulty: AIDifficulty = NORMAL_DIFFICULTY,
+    seed: number = 1
+  ) {
+    this.random = seededRandom(seed);
+    this.perception = new BallPerception(difficulty, this.random);
+  }
+
   abstract getInput(
     slime: Base.SlimeBase,
     ball: Base.BallBase,
     opponent: Base.SlimeBase,
     opponentInput: Base.InputSource
   ): Base.InputSource;
-}
 
+  // The ball as this bot's difficulty lets it see it (the live ball itself at full perception).
+  // Call once per getInput: every call advances the reaction-delay history.
+  protected perceive(ball: Base.BallBase): Base.BallBase {
+    return this.perception.perceive(ball);
+  }
+
+  // A rollout horizon scaled by the difficulty
+  protected scaledHorizon(ticks: number): number {
+    return Math.max(1, Math.round(ticks * this.difficulty.horizonScale));
+  }
 
+  // A strike cooldown scaled by the difficulty
+  protected scaledCooldown(ticks: number): number {
+    return Math.round(ticks * this.difficulty.strikeCooldownScale);
+  }
+
+  // The candidate plans to roll out: all of them within the difficulty's budget, else a random
+  // subset (in the original order) of that size
+  protected withinBudget<T>(candidates: readonly T[]): readonly T[] {
+    const budget = this.difficulty.candidateBudget;
+    if (candidates.length <= budget) return candidates;
+    const keep = new Set<number>();
+    while (keep.size < budget) keep.add(Math.floor(this.random() * candidates.length));
+    return candidates.filter((_, i) => keep.has(i));
+  }
+
+  // Whether a grab press can matter right now: throwing a held ball, or catching a nearby one.
+  // Used to decide when rollouts should also try grab/throw candidates.
+  protected grabIsRelevant(slime: Base.SlimeBase, ball: Base.BallBase, opponent: Base.SlimeBase): boolean {
+    if (slime.isHoldingBall()) return true;
+    if (opponent.isHoldingBall() || slime.isGrabStateActive() || ball.isFrozen()) return false;
+    const reach = this.rules.slimeRadius + this.rules.ballRadius + 60;
+    return Math.hypot(ball.x - slime.x, ball.y - slime.y) < reach;
+  }
+}
@@ -46,7 +46,7 @@ export class AIPIDChase extends AIBase {
     const output = (this.kp * error) + (this.ki * this.integral) + (this.kd * derivative);
     // We keep the PID calculation (useful later), but map to discrete left/right buttons with hysteresis.
     // This prevents rapid back-and-forth toggling when error hovers around 0.
-    const desiredVx = Math.max(-Base.CONFIG.slimeSpeed, Math.min(Base.CONFIG.slimeSpeed, output));
+    const desiredVx = Math.max(-this.rules.slimeSpeed, Math.min(this.rules.slimeSpeed, output));
 
     this.input.clear();
 
@@ -77,15 +77,9 @@ export class AIPIDChase extends AIBase {
     const goRight = this.moveDir === 1 && Math.abs(desiredVx) > 0;
     const goLeft = this.moveDir === -1 && Math.abs(desiredVx) > 0;
 
-    if (slime.isPlayer1) {
-      this.input.setKey('KeyD', goRight);
-      this.input.setKey('KeyA', goLeft);
-      this.input.setKey('KeyW', false);
-    } else {
-      this.input.setKey('ArrowRight', goRight);
-      this.input.setKey('ArrowLeft', goLeft);
-      this.input.setKey('ArrowUp', false);
-    }
+    this.input.setKey(slime.bindings.right, goRight);
+    this.input.setKey(slime.bindings.left, goLeft);
+    this.input.setKey(slime.bindings.jump, false);
 
     return this.input;
   }
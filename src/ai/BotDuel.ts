@@ -0,0 +1,37 @@
+import type { Match } from '../base/Match.js';
+import type { AIBase } from './AIBase.js';
+import { VirtualInput } from './VirtualInput.js';
+
+// --- BOT DUEL (Stepping a Bot on Each Side) ---
+// Advances a 1v1 match driven by two bots with equal information: each reads a snapshot of the
+// other's keys from the tick before, never the other's live input object. Arena matches and
+// tournament bot games both step through here. When the players switch ends (volleyball sets),
+// the bots move with them, like the live game's controllers.
+export class BotDuel {
+  private leftKeys = new VirtualInput();
+  private rightKeys = new VirtualInput();
+  private leftAI: AIBase;
+  private rightAI: AIBase;
+
+  constructor(readonly match: Match, leftAI: AIBase, rightAI: AIBase) {
+    this.leftAI = leftAI;
+    this.rightAI = rightAI;
+    match.events.on('sidesSwitched', () => {
+      [this.leftAI, this.rightAI] = [this.rightAI, this.leftAI];
+    });
+  }
+
+  // The bot playing a side (1 = left) right now
+  aiOn(side: 1 | 2): AIBase {
+    return side === 1 ? this.leftAI : this.rightAI;
+  }
+
+  step(): void {
+    const match = this.match;
+    const left = this.leftAI.getInput(match.p1, match.ball, match.p2, this.rightKeys);
+    const right = this.rightAI.getInput(match.p2, match.ball, match.p1, this.leftKeys);
+    match.step({ p1: left, p2: right });
+    this.leftKeys = VirtualInput.snapshot(left, match.p1.bindings);
+    this.rightKeys = VirtualInput.snapshot(right, match.p2.bindings);
+  }
+}
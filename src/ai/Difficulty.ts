@@ -0,0 +1,83 @@
+import { SINGLE_ACTION_SEARCH, type PlanSearchSettings } from './PlanSearch.js';
+
+// --- AI DIFFICULTY (Strength Presets) ---
+// How well a bot sees the ball and how hard it thinks. Normal is the bots' original tuning.
+// Easier bots react late to a noisy view of the ball and weigh fewer options; harder bots look
+// further ahead, plan sequences of moves and recover from strikes sooner.
+export interface AIDifficulty {
+  id: string;
+  name: string;
+  reactionTicks: number; // the ball is seen as it was this many ticks ago
+  positionNoise: number; // px: perceived ball position is off by up to this much
+  velocityNoise: number; // px/tick: perceived ball velocity is off by up to this much
+  horizonScale: number; // multiplier on rollout horizons
+  candidateBudget: number; // most candidate plans rolled out per decision
+  strikeCooldownScale: number; // multiplier on the pause between strikes
+  planSearch: PlanSearchSettings; // search over move sequences (depth 1: hold one move)
+  liveSearchBudgetMs: number; // wall-clock cap on that search in live play only (see liveDifficulty)
+}
+
+export const NORMAL_DIFFICULTY: AIDifficulty = {
+  id: 'normal',
+  name: 'Normal',
+  reactionTicks: 0,
+  positionNoise: 0,
+  velocityNoise: 0,
+  horizonScale: 1,
+  candidateBudget: Infinity,
+  strikeCooldownScale: 1,
+  planSearch: SINGLE_ACTION_SEARCH,
+  liveSearchBudgetMs: Infinity,
+};
+
+// Presets offered in the selection modal, easiest first
+export const AI_DIFFICULTIES: readonly AIDifficulty[] = [
+  {
+    id: 'easy',
+    name: 'Easy',
+    reactionTicks: 12, // ~200ms behind the play
+    positionNoise: 40,
+    velocityNoise: 1.5,
+    horizonScale: 0.5,
+    candidateBudget: 4,
+    strikeCooldownScale: 1.8,
+    planSearch: SINGLE_ACTION_SEARCH,
+    liveSearchBudgetMs: Infinity,
+  },
+  NORMAL_DIFFICULTY,
+  {
+    id: 'hard',
+    name: 'Hard',
+    reactionTicks: 0,
+    positionNoise: 0,
+    velocityNoise: 0,
+    horizonScale: 1,
+    candidateBudget: Infinity,
+    strikeCooldownScale: 0.8,
+    planSearch: { depth: 3, beamWidth: 2, macroTicks: 15, maxRollouts: 24, timeBudgetMs: Infinity },
+    liveSearchBudgetMs: 5,
+  },
+  {
+    id: 'expert',
+    name: 'Expert',
+    reactionTicks: 0,
+    positionNoise: 0,
+    velocityNoise: 0,
+    horizonScale: 1.1,
+    candidateBudget: Infinity,
+    strikeCooldownScale: 0.65,
+    planSearch: { depth: 3, beamWidth: 2, macroTicks: 20, maxRollouts: 24, timeBudgetMs: Infinity },
+    liveSearchBudgetMs: 8,
+  },
+];
+
+// The presets' searches stop only at their rollout cap, so bot matches, the arena and training
+// replay exactly on any machine. Live play adds the wall-clock cap to keep the frame rate.
+export function liveDifficulty(difficulty: AIDifficulty): AIDifficulty {
+  const planSearch = { ...difficulty.planSearch, timeBudgetMs: difficulty.liveSearchBudgetMs };
+  return { ...difficulty, planSearch };
+}
+
+export function getAIDifficulty(id: string): AIDifficulty {
+  return AI_DIFFICULTIES.find((difficulty) => difficulty.id === id) ?? NORMAL_DIFFICULTY;
+}
@@ -0,0 +1,163 @@
+import * as Base from '../base/index.js';
+import type { SideFrame } from './SideFrame.js';
+
+// Network inputs: the state features below, all in the bot's side frame
+export const POLICY_FEATURES = 12;
+// Network outputs: LEFT / NONE / RIGHT scores (in the bot's side frame), then jump
+export const POLICY_OUTPUTS = 4;
+
+export const POLICY_FORMAT = 'slime-mlp';
+export const POLICY_VERSION = 1;
+
+export interface PolicyLayer {
+  weights: number[][]; // [output][input]
+  biases: number[];
+}
+
+// --- LEARNED POLICY WEIGHTS (JSON Format) ---
+// What the trainer saves and LearnedPolicyAI loads: a small fully connected network with tanh
+// hidden layers. `mode` is the mode it was trained for (a soccer policy means nothing in
+// volleyball); `training` records how it was made and is not read back.
+export interface LearnedPolicyWeights {
+  format: typeof POLICY_FORMAT;
+  version: typeof POLICY_VERSION;
+  name: string;
+  mode: Base.GameMode;
+  layers: PolicyLayer[];
+  training?: Record<string, unknown>;
+}
+
+export interface PolicyDecision {
+  action: 'LEFT' | 'NONE' | 'RIGHT'; // in the bot's side frame
+  jump: boolean;
+}
+
+// --- MLP POLICY (Small Feed-Forward Network) ---
+// A fixed-size network mapping state features to a move and a jump. The trainer treats it as a
+// flat parameter vector (layer by layer: weights row by row, then biases).
+export class MLPPolicy {
+  private constructor(
+    readonly name: string,
+    readonly mode: Base.GameMode,
+    private readonly layers: readonly PolicyLayer[]
+  ) {}
+
+  // Layer sizes from input to output, e.g. [12, 16, 4]
+  static layerSizes(hidden: readonly number[]): number[] {
+    return [POLICY_FEATURES, ...hidden, POLICY_OUTPUTS];
+  }
+
+  static parameterCount(sizes: readonly number[]): number {
+    let count = 0;
+    for (let i = 1; i < sizes.length; i++) count += sizes[i] * (sizes[i - 1] + 1);
+    return count;
+  }
+
+  static fromVector(name: string, mode: Base.GameMode, sizes: readonly number[], vector: readonly number[]): MLPPolicy {
+    if (vector.length !== MLPPolicy.parameterCount(sizes)) {
+      throw new Error(`Policy vector has ${vector.length} values; layer sizes ${sizes.join('-')} need ${MLPPolicy.parameterCount(sizes)}`);
+    }
+    let offset = 0;
+    const layers: PolicyLayer[] = [];
+    for (let i = 1; i < sizes.length; i++) {
+      const weights: number[][] = [];
+      for (let out = 0; out < sizes[i]; out++) {
+        weights.push(vector.slice(offset, offset + sizes[i - 1]));
+        offset += sizes[i - 1];
+      }
+      layers.push({ weights, biases: vector.slice(offset, offset + sizes[i]) });
+      offset += sizes[i];
+    }
+    return new MLPPolicy(name, mode, layers);
+  }
+
+  // Validates parsed JSON (a weights file) and builds the policy
+  static fromWeights(data: unknown): MLPPolicy {
+    const weights = data as Partial<LearnedPolicyWeights> | null;
+    if (!weights || weights.format !== POLICY_FORMAT || weights.version !== POLICY_VERSION) {
+      throw new Error(`Not a ${POLICY_FORMAT} v${POLICY_VERSION} policy file`);
+    }
+    if (typeof weights.name !== 'string' || typeof weights.mode !== 'string' || !Array.isArray(weights.layers)) {
+      throw new Error('Policy file needs a name, a mode and layers');
+    }
+    let inputs = POLICY_FEATURES;
+    for (const [i, layer] of weights.layers.entries()) {
+      const rows = layer?.weights;
+      const biases = layer?.biases;
+      const valid = Array.isArray(rows) && Array.isArray(biases) && rows.length > 0 && rows.length === biases.length
+        && rows.every((row) => Array.isArray(row) && row.length === inputs && row.every(Number.isFinite))
+        && biases.every(Number.isFinite);
+      if (!valid) throw new Error(`Policy layer ${i} does not fit: expected ${inputs} inputs per row and one bias per row`);
+      inputs = rows.length;
+    }
+    if (inputs !== POLICY_OUTPUTS) throw new Error(`Policy must end with ${POLICY_OUTPUTS} outputs, not ${inputs}`);
+    return new MLPPolicy(weights.name, weights.mode, weights.layers);
+  }
+
+  toWeights(training?: Record<string, unknown>): LearnedPolicyWeights {
+    return {
+      format: POLICY_FORMAT,
+      version: POLICY_VERSION,
+      name: this.name,
+      mode: this.mode,
+      layers: this.layers.map((layer) => ({ weights: layer.weights.map((row) => [...row]), biases: [...layer.biases] })),
+      ...(training ? { training } : {}),
+    };
+  }
+
+  toVector(): number[] {
+    return this.layers.flatMap((layer) => [...layer.weights.flat(), ...layer.biases]);
+  }
+
+  get sizes(): number[] {
+    return [POLICY_FEATURES, ...this.layers.map((layer) => layer.biases.length)];
+  }
+
+  forward(features: readonly number[]): readonly number[] {
+    let values: readonly number[] = features;
+    this.layers.forEach((layer, i) => {
+      const hidden = i < this.layers.length - 1;
+      values = layer.weights.map((row, out) => {
+        let sum = layer.biases[out];
+        for (let j = 0; j < row.length; j++) sum += row[j] * values[j];
+        return hidden ? Math.tanh(sum) : sum;
+      });
+    });
+    return values;
+  }
+
+  decide(features: readonly number[]): PolicyDecision {
+    const [left, none, right, jump] = this.forward(features);
+    const action = left > none && left > right ? 'LEFT' : right > none && right > left ? 'RIGHT' : 'NONE';
+    return { action, jump: jump > 0 };
+  }
+}
+
+// The network's view of the state, in the bot's side frame and scaled to roughly [-1, 1].
+// Heights are measured up from the ground.
+export function policyFeatures(
+  frame: SideFrame,
+  rules: Base.RuleSet,
+  self: Base.SlimeBase,
+  opponent: Base.SlimeBase,
+  ball: Base.BallBase
+): number[] {
+  const width = Base.CONFIG.internalWidth;
+  const groundY = Base.CONFIG.internalHeight - Base.CONFIG.groundHeight;
+  const x = (value: number): number => (frame.x(value) / width) * 2 - 1;
+  const height = (y: number): number => (groundY - y) / groundY;
+  return [
+    x(self.x),
+    height(self.y),
+    frame.vx(self.vx) / rules.slimeSpeed,
+    -self.vy / rules.slimeJumpForce,
+    x(opponent.x),
+    height(opponent.y),
+    x(ball.x),
+    height(ball.y),
+    frame.vx(ball.vx) / rules.ballMaxSpeed,
+    -ball.vy / rules.ballMaxSpeed,
+    (frame.x(ball.x) - frame.x(self.x)) / width,
+    ball.isFrozen() ? 1 : 0,
+  ];
+}
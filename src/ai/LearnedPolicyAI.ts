@@ -0,0 +1,42 @@
+import * as Base from '../base/index.js';
+import { AIBase } from './AIBase.js';
+import type { AIDifficulty } from './Difficulty.js';
+import { MLPPolicy, policyFeatures } from './LearnedPolicy.js';
+import { SideFrame } from './SideFrame.js';
+import { VirtualInput } from './VirtualInput.js';
+
+// --- LEARNED POLICY AI (Trained Network Bot) ---
+// Plays a policy from the self-play trainer: every tick it feeds the state (in its side frame,
+// so a policy trained as P2 also plays on the left) through the network and presses the move and
+// jump it picks. No rollouts, so it is far cheaper than the heuristic mode AIs. The difficulty
+// only limits its view of the ball.
+export class LearnedPolicyAI extends AIBase {
+  private input = new VirtualInput();
+
+  constructor(
+    rules: Base.RuleSet,
+    private readonly policy: MLPPolicy,
+    difficulty?: AIDifficulty,
+    seed?: number
+  ) {
+    super(rules, difficulty, seed);
+  }
+
+  // From a weights file's parsed JSON (throws if it is not a policy file)
+  static fromWeights(rules: Base.RuleSet, data: unknown, difficulty?: AIDifficulty, seed?: number): LearnedPolicyAI {
+    return new LearnedPolicyAI(rules, MLPPolicy.fromWeights(data), difficulty, seed);
+  }
+
+  getInput(slime: Base.SlimeBase, ball: Base.BallBase, opponent: Base.SlimeBase, _opponentInput: Base.InputSource): VirtualInput {
+    const frame = new SideFrame(slime);
+    const decision = this.policy.decide(policyFeatures(frame, this.rules, slime, opponent, this.perceive(ball)));
+    const groundY = Base.CONFIG.internalHeight - Base.CONFIG.groundHeight;
+
+    this.input.clear();
+    const move = frame.action(decision.action);
+    this.input.setKey(slime.bindings.right, move === 'RIGHT');
+    this.input.setKey(slime.bindings.left, move === 'LEFT');
+    this.input.setKey(slime.bindings.jump, decision.jump && slime.y >= groundY);
+    return this.input;
+  }
+}
@@ -0,0 +1,70 @@
+import type * as Base from '../base/index.js';
+import type { AIDifficulty } from './Difficulty.js';
+
+// A misjudgment is held this long before a fresh one is drawn, so noise reads as a wrong read
+// of the ball rather than jitter
+const NOISE_HOLD_TICKS = 15;
+
+// --- BALL PERCEPTION (Reaction Delay and Tracking Noise) ---
+// What a difficulty-limited AI sees of the ball: its state `reactionTicks` ago, off by a
+// bounded random error. The view is a stand-in ball whose position and velocity shadow the real
+// one's, so AI code (and its rollout snapshots) reads it exactly like the live ball.
+// Randomness is seeded, so bot matches stay reproducible.
+export class BallPerception {
+  private readonly history: Base.BallState[] = [];
+  private errorX = 0;
+  private errorY = 0;
+  private errorVx = 0;
+  private errorVy = 0;
+  private nextErrorTick = 0;
+
+  constructor(private readonly difficulty: AIDifficulty, private readonly random: () => number) {}
+
+  private get isPerfect(): boolean {
+    const d = this.difficulty;
+    return d.reactionTicks <= 0 && d.positionNoise <= 0 && d.velocityNoise <= 0;
+  }
+
+  perceive(ball: Base.BallBase): Base.BallBase {
+    if (this.isPerfect) return ball;
+
+    this.history.push(ball.getState());
+    while (this.history.length > this.difficulty.reactionTicks + 1) this.history.shift();
+    const seen = this.history[0];
+
+    if (ball.clock.tick >= this.nextErrorTick) {
+      const { positionNoise, velocityNoise } = this.difficulty;
+      this.errorX = this.symmetric() * positionNoise;
+      this.errorY = this.symmetric() * positionNoise;
+      this.errorVx = this.symmetric() * velocityNoise;
+      this.errorVy = this.symmetric() * velocityNoise;
+      this.nextErrorTick = ball.clock.tick + NOISE_HOLD_TICKS;
+    }
+
+    const view: Base.BallBase = Object.create(ball);
+    view.x = seen.x + this.errorX;
+    view.y = seen.y + this.errorY;
+    view.prevX = seen.prevX + this.errorX;
+    view.prevY = seen.prevY + this.errorY;
+    view.vx = seen.vx + this.errorVx;
+    view.vy = seen.vy + this.errorVy;
+    return view;
+  }
+
+  // Uniform in [-1, 1)
+  private symmetric(): number {
+    return this.random() * 2 - 1;
+  }
+}
+
+// Seeded random numbers in [0, 1) (mulberry32)
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
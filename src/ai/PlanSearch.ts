@@ -0,0 +1,160 @@
+import type * as Base from '../base/index.js';
+import type { RolloutResult, RolloutSimulator } from './RolloutSimulator.js';
+import type { SideFrame } from './SideFrame.js';
+import type { InputPlan, MoveAction, PlanSegment, PlayerPlan } from './UserIntent.js';
+
+// How hard a bot searches over action sequences (see PlanSearch)
+export interface PlanSearchSettings {
+  depth: number; // macro-actions per plan (1 = hold one action, the classic rollout choice)
+  beamWidth: number; // best plans kept at each depth
+  macroTicks: number; // ticks each macro-action is held before the next one starts
+  maxRollouts: number; // rollouts per decision beyond the first moves (keeps bot matches reproducible)
+  timeBudgetMs: number; // wall-clock cap per decision; Infinity keeps the search deterministic
+}
+
+// One rollout per first move, nothing more: the classic single-action choice
+export const SINGLE_ACTION_SEARCH: PlanSearchSettings = {
+  depth: 1,
+  beamWidth: 1,
+  macroTicks: 0,
+  maxRollouts: 0,
+  timeBudgetMs: Infinity,
+};
+
+export interface PlanSearchRequest<TMetrics> {
+  snapshot: Readonly<Base.PhysicsState>;
+  horizon: number;
+  frame: SideFrame;
+  opponentPlan: PlayerPlan; // what the opponent is pressing now (held for the whole rollout)
+  firstMoves: readonly PlayerPlan[]; // what the bot may do this tick, in its frame
+  // Higher is better; `plan` is in the bot's frame
+  evaluate(result: RolloutResult<TMetrics>, plan: InputPlan): number;
+  // Last decision's plan, one tick on (see shiftPlan): tried first so a good plan isn't dropped
+  warmStart?: InputPlan | null;
+}
+
+export interface PlanSearchResult {
+  plan: InputPlan;
+  first: PlayerPlan; // what to press this tick
+  score: number;
+}
+
+// Macro-actions a plan can continue with after its first move
+const MACROS: readonly PlanSegment[] = (['LEFT', 'RIGHT', 'NONE'] as const).flatMap((action: MoveAction) => [
+  { action },
+  { action, jump: true },
+]);
+
+interface ScoredPlan {
+  plan: InputPlan;
+  score: number;
+}
+
+// --- PLAN SEARCH (Beam Search over Macro-Actions) ---
+// Plans are sequences of macro-actions: move one way for `macroTicks` ticks, optionally jumping as
+// the macro starts; the last macro is held until the rollout horizon. Depth 1 tries each first move
+// held for the whole horizon. Every deeper level extends the best `beamWidth` plans so far by each
+// macro, so a bot can find "run left, then jump at tick 12" or "wait, then sprint". Plans are
+// scored by rolling them out with the mode's real physics, so the search plugs into any sport's
+// RolloutSimulator. The search stops at the rollout or time budget and returns the best plan seen.
+// Bots replan every tick and only press the plan's first move (receding horizon).
+export class PlanSearch<TMetrics> {
+  constructor(
+    private readonly rollout: RolloutSimulator<TMetrics>,
+    private readonly settings: PlanSearchSettings = SINGLE_ACTION_SEARCH
+  ) {}
+
+  search(request: PlanSearchRequest<TMetrics>): PlanSearchResult | null {
+    const { depth, beamWidth, macroTicks, maxRollouts, timeBudgetMs } = this.settings;
+    const deadline = Number.isFinite(timeBudgetMs) ? performance.now() + timeBudgetMs : Infinity;
+    let rolloutsLeft = maxRollouts;
+    let best: ScoredPlan | null = null;
+
+    const score = (plan: InputPlan): ScoredPlan => {
+      const { snapshot, horizon, frame, opponentPlan } = request;
+      const result = this.rollout.run(snapshot, horizon, frame.sequencePlans(plan, opponentPlan), frame.side);
+      const scored = { plan, score: request.evaluate(result, plan) };
+      if (!best || scored.score > best.score) best = scored;
+      return scored;
+    };
+
+    // Depth 1: every first move (always evaluated, whatever the budget)
+    let beam = request.firstMoves.map((move) => score([toSegment(move)]));
+
+    // The previous plan, if it still starts with an allowed move. It competes for best as it is but
+    // is never extended, so plans stay at most `depth` macro-actions long from tick to tick.
+    const warm = request.warmStart;
+    if (warm && warm.length > 1 && request.firstMoves.some((move) => samePlan(move, firstMove(warm)))) {
+      score(warm);
+    }
+
+    for (let level = 2; level <= depth; level++) {
+      const parents = [...beam].sort((a, b) => b.score - a.score).slice(0, beamWidth);
+      beam = [];
+      for (const parent of parents) {
+        for (const macro of MACROS) {
+          if (rolloutsLeft <= 0 || performance.now() >= deadline) return resultOf(best);
+          rolloutsLeft--;
+          beam.push(score(extend(parent.plan, macro, macroTicks)));
+        }
+      }
+    }
+    return resultOf(best);
+  }
+}
+
+// What a plan presses on its first tick
+export function firstMove(plan: InputPlan): PlayerPlan {
+  const segment = plan[0];
+  return {
+    action: segment?.action ?? 'NONE',
+    jumpOnStep0: segment?.jump ?? false,
+    grabOrThrowOnStep0: segment?.grabOrThrow ?? false,
+  };
+}
+
+// A plan `ticks` later: elapsed segments are dropped, and a segment already under way has
+// already pressed its buttons
+export function shiftPlan(plan: InputPlan, ticks: number = 1): InputPlan {
+  const shifted: PlanSegment[] = [];
+  let skip = ticks;
+  for (let i = 0; i < plan.length; i++) {
+    const segment = plan[i];
+    const isLast = i === plan.length - 1;
+    const length = segment.ticks ?? Infinity;
+    if (!isLast && skip >= length) {
+      skip -= length;
+      continue;
+    }
+    if (skip > 0) {
+      shifted.push({ action: segment.action, ...(isLast ? {} : { ticks: length - skip }) });
+      skip = 0;
+    } else {
+      shifted.push(segment);
+    }
+  }
+  return shifted;
+}
+
+// Jump presses in a plan (the AIs charge a small cost for each)
+export function countJumps(plan: InputPlan): number {
+  return plan.filter((segment) => segment.jump).length;
+}
+
+function toSegment(move: PlayerPlan): PlanSegment {
+  return { action: move.action, jump: move.jumpOnStep0, grabOrThrow: move.grabOrThrowOnStep0 };
+}
+
+// The plan with its last segment held for `ticks`, then `macro` until the horizon
+function extend(plan: InputPlan, macro: PlanSegment, ticks: number): InputPlan {
+  const last = plan[plan.length - 1];
+  return [...plan.slice(0, -1), { ...last, ticks }, macro];
+}
+
+function samePlan(a: PlayerPlan, b: PlayerPlan): boolean {
+  return a.action === b.action && a.jumpOnStep0 === b.jumpOnStep0 && a.grabOrThrowOnStep0 === b.grabOrThrowOnStep0;
+}
+
+function resultOf(best: ScoredPlan | null): PlanSearchResult | null {
+  return best ? { plan: best.plan, first: firstMove(best.plan), score: best.score } : null;
+}
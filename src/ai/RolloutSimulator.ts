@@ -0,0 +1,118 @@
+import * as Base from '../base/index.js';
+import { SimulationBase, type SimulationOutcome } from './SimulationBase.js';
+import { PlanInput, type InputPlan } from './UserIntent.js';
+
+// Minimal GameInterface for rollouts: records the first point scored instead of resetting.
+class RolloutGame implements Base.GameInterface {
+  readonly events: Base.GameEventBus = new Base.EventBus();
+  scoringPlayer: 1 | 2 | null = null;
+
+  scorePoint(scoringPlayer: number): void {
+    if (this.scoringPlayer === null) this.scoringPlayer = scoringPlayer as 1 | 2;
+  }
+
+  getTotalScore(): number {
+    return 0;
+  }
+}
+
+// Live rollout world (mutated in place each step).
+export interface RolloutWorld {
+  readonly p1: Base.SlimeBase;
+  readonly p2: Base.SlimeBase;
+  readonly ball: Base.BallBase;
+  readonly clock: Base.SimClock;
+  readonly startTick: number;
+  // The player the rollout is evaluated for: their point is a 'win'
+  readonly perspective: 1 | 2;
+}
+
+// Everything that differs between sports: which entity classes to build and which metrics to track.
+export interface RolloutMode<TMetrics> {
+  SlimeClass: new (isPlayer1: boolean, clock: Base.SimClock, rules: Base.RuleSet) => Base.SlimeBase;
+  BallClass: new (game: Base.GameInterface, clock: Base.SimClock, rules: Base.RuleSet) => Base.BallBase;
+  createMetrics(world: RolloutWorld): TMetrics;
+  // Called after every simulated step
+  updateMetrics(metrics: TMetrics, world: RolloutWorld): void;
+}
+
+// Metrics type for sports that track nothing beyond the outcome.
+export type NoMetrics = Record<string, never>;
+
+export interface RolloutPlans {
+  p1: InputPlan;
+  p2: InputPlan;
+}
+
+export interface RolloutResult<TMetrics> {
+  verdict: 'none' | 'win' | 'loss';
+  step: number | null;
+  end: Base.PhysicsState;
+  metrics: TMetrics;
+}
+
+interface RolloutState<TMetrics> extends RolloutWorld {
+  readonly game: RolloutGame;
+  readonly slimes: readonly Base.SlimeBase[];
+  readonly plans: RolloutPlans;
+  readonly p1Input: PlanInput;
+  readonly p2Input: PlanInput;
+  readonly metrics: TMetrics;
+}
+
+// Input-based rollout using the *real* entity classes of a mode.
+// This keeps the AI "fair": it can only choose inputs; physics is identical to live play.
+export class RolloutSimulator<TMetrics> extends SimulationBase<RolloutState<TMetrics>> {
+  constructor(private readonly mode: RolloutMode<TMetrics>, private readonly rules: Base.RuleSet) {
+    super();
+  }
+
+  run(snapshot: Readonly<Base.PhysicsState>, steps: number, plans: RolloutPlans, perspective: 1 | 2 = 2): RolloutResult<TMetrics> {
+    const game = new RolloutGame();
+    const clock = new Base.SimClock(snapshot.tick);
+    const p1 = new this.mode.SlimeClass(true, clock, this.rules);
+    const p2 = new this.mode.SlimeClass(false, clock, this.rules);
+    const ball = new this.mode.BallClass(game, clock, this.rules);
+    Base.restorePhysicsState(snapshot, p1, p2, ball);
+
+    const world: RolloutWorld = { p1, p2, ball, clock, startTick: snapshot.tick, perspective };
+    const metrics = this.mode.createMetrics(world);
+    const state: RolloutState<TMetrics> = {
+      ...world,
+      game,
+      slimes: [p1, p2],
+      plans,
+      p1Input: new PlanInput(true),
+      p2Input: new PlanInput(false),
+      metrics,
+    };
+
+    const outcome = this.simulate(state, steps);
+    return {
+      verdict: outcome.verdict,
+      step: outcome.verdict === 'none' ? null : outcome.step,
+      end: Base.capturePhysicsState(p1, p2, ball),
+      metrics,
+    };
+  }
+
+  protected step(state: Readonly<RolloutState<TMetrics>>): RolloutState<TMetrics> {
+    const step = state.clock.tick - state.startTick;
+    state.p1Input.setStep(state.plans.p1, step);
+    state.p2Input.setStep(state.plans.p2, step);
+
+    state.p1.update(state.p1Input);
+    state.p2.update(state.p2Input);
+    state.ball.update(state.slimes);
+    state.clock.advance();
+
+    this.mode.updateMetrics(state.metrics, state);
+    return state;
+  }
+
+  protected terminal(state: Readonly<RolloutState<TMetrics>>, step: number): SimulationOutcome | null {
+    const scorer = state.game.scoringPlayer;
+    if (scorer === null) return null;
+    return { verdict: scorer === state.perspective ? 'win' : 'loss', step, meta: undefined };
+  }
+}
@@ -0,0 +1,78 @@
+import * as Base from '../base/index.js';
+import { singleActionPlan, sustainedPlan, type InputPlan, type MoveAction, type PlayerPlan } from './UserIntent.js';
+import type { RolloutPlans } from './RolloutSimulator.js';
+
+export interface FramedBody {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+}
+
+// A physics state seen from one bot's side
+export interface FramedState {
+  self: FramedBody;
+  opponent: FramedBody;
+  ball: FramedBody;
+}
+
+// --- SIDE FRAME (One AI for Either Side) ---
+// The sport AIs reason in a right-side frame: own goal/half on the right, attacking leftward.
+// A SideFrame maps the real court into that frame for a bot on either side. A left-side bot sees
+// x positions, x velocities and its LEFT/RIGHT moves mirrored; for a right-side bot every mapping
+// is the identity. Rollouts still run on the real court, with the bot in its own slot and judged
+// from its side (`side` as the rollout perspective).
+export class SideFrame {
+  readonly side: 1 | 2;
+  private readonly mirrored: boolean;
+
+  constructor(slime: Base.SlimeBase) {
+    this.side = slime.isPlayer1 ? 1 : 2;
+    this.mirrored = slime.isPlayer1;
+  }
+
+  // Court x in this frame (mirroring is its own inverse, so this also maps back)
+  x(x: number): number {
+    return this.mirrored ? Base.CONFIG.internalWidth - x : x;
+  }
+
+  vx(vx: number): number {
+    return this.mirrored ? -vx : vx;
+  }
+
+  // A move in this frame as a key direction on the real court (and back)
+  action(action: MoveAction): MoveAction {
+    if (!this.mirrored || action === 'NONE') return action;
+    return action === 'LEFT' ? 'RIGHT' : 'LEFT';
+  }
+
+  // Physics snapshot with both slimes in their real slots
+  snapshot(self: Base.SlimeBase, opponent: Base.SlimeBase, ball: Base.BallBase): Base.PhysicsState {
+    return this.side === 1
+      ? Base.capturePhysicsState(self, opponent, ball)
+      : Base.capturePhysicsState(opponent, self, ball);
+  }
+
+  // Rollout plans: our candidate (in this frame) held for the horizon, and the opponent keeping
+  // whatever they are pressing now (read on the real court)
+  plans(candidate: PlayerPlan, opponentNow: PlayerPlan): RolloutPlans {
+    return this.sequencePlans(singleActionPlan(candidate), opponentNow);
+  }
+
+  // Same, for a multi-step plan of ours (in this frame)
+  sequencePlans(plan: InputPlan, opponentNow: PlayerPlan): RolloutPlans {
+    const own = plan.map((segment) => ({ ...segment, action: this.action(segment.action) }));
+    const opponent = sustainedPlan(opponentNow);
+    return this.side === 1 ? { p1: own, p2: opponent } : { p1: opponent, p2: own };
+  }
+
+  // A physics state (a snapshot or a rollout's end) in this frame
+  view(state: Readonly<Base.PhysicsState>): FramedState {
+    const [self, opponent] = this.side === 1 ? [state.p1, state.p2] : [state.p2, state.p1];
+    return { self: this.body(self), opponent: this.body(opponent), ball: this.body(state.ball) };
+  }
+
+  private body(body: FramedBody): FramedBody {
+    return { x: this.x(body.x), y: body.y, vx: this.vx(body.vx), vy: body.vy };
+  }
+}
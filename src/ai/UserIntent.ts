@@ -1,4 +1,4 @@
-import type * as Base from '../base/index.js';
+import * as Base from '../base/index.js';
 
 export type MoveAction = 'LEFT' | 'RIGHT' | 'NONE';
 
@@ -8,11 +8,12 @@ export interface PlayerPlan {
   grabOrThrowOnStep0: boolean;
 }
 
-export function planFromInput(input: Base.InputSource, isPlayer1: boolean): PlayerPlan {
-  const left = isPlayer1 ? input.isDown('KeyA') : input.isDown('ArrowLeft');
-  const right = isPlayer1 ? input.isDown('KeyD') : input.isDown('ArrowRight');
-  const jump = isPlayer1 ? input.isDown('KeyW') : input.isDown('ArrowUp');
-  const grabOrThrow = isPlayer1 ? input.isDown('KeyS') : input.isDown('ArrowDown');
+// What a player is pressing right now, read through their slime's key bindings.
+export function planFromInput(input: Base.InputSource, bindings: Base.KeyBindings): PlayerPlan {
+  const left = input.isDown(bindings.left);
+  const right = input.isDown(bindings.right);
+  const jump = input.isDown(bindings.jump);
+  const grabOrThrow = input.isDown(bindings.grab);
 
   let action: MoveAction = 'NONE';
   if (left && !right) action = 'LEFT';
@@ -21,29 +22,62 @@ export function planFromInput(input: Base.InputSource, isPlayer1: boolean): Play
   return { action, jumpOnStep0: jump, grabOrThrowOnStep0: grabOrThrow };
 }
 
-class AlwaysUpInput implements Base.InputSource {
-  constructor(private readonly codesDown: ReadonlySet<string>) {}
-  isDown(code: string): boolean {
-    return this.codesDown.has(code);
-  }
+// --- MULTI-STEP INPUT PLANS (used by rollouts) ---
+// A plan is a sequence of segments. Each segment holds a movement action for `ticks` steps and
+// presses jump / grab-throw on its first tick (or holds them throughout when holdButtons is set).
+// The last segment's `ticks` may be omitted: it is then held until the rollout horizon.
+export interface PlanSegment {
+  action: MoveAction;
+  jump?: boolean;
+  grabOrThrow?: boolean;
+  holdButtons?: boolean;
+  ticks?: number;
 }
 
-export function buildP1Input(plan: Pick<PlayerPlan, 'action' | 'jumpOnStep0' | 'grabOrThrowOnStep0'>): Base.InputSource {
-  const down = new Set<string>();
-  if (plan.action === 'LEFT') down.add('KeyA');
-  if (plan.action === 'RIGHT') down.add('KeyD');
-  if (plan.jumpOnStep0) down.add('KeyW');
-  if (plan.grabOrThrowOnStep0) down.add('KeyS');
-  return new AlwaysUpInput(down);
+export type InputPlan = readonly PlanSegment[];
+
+// Hold one action for the whole horizon, pressing jump/grab on step 0 only.
+export function singleActionPlan(plan: Pick<PlayerPlan, 'action' | 'jumpOnStep0'> & Partial<PlayerPlan>): InputPlan {
+  return [{ action: plan.action, jump: plan.jumpOnStep0, grabOrThrow: plan.grabOrThrowOnStep0 ?? false }];
 }
 
-export function buildP2Input(plan: Pick<PlayerPlan, 'action' | 'jumpOnStep0' | 'grabOrThrowOnStep0'>): Base.InputSource {
-  const down = new Set<string>();
-  if (plan.action === 'LEFT') down.add('ArrowLeft');
-  if (plan.action === 'RIGHT') down.add('ArrowRight');
-  if (plan.jumpOnStep0) down.add('ArrowUp');
-  if (plan.grabOrThrowOnStep0) down.add('ArrowDown');
-  return new AlwaysUpInput(down);
+// Predict that a player keeps every key they are holding right now (used for the opponent).
+export function sustainedPlan(plan: PlayerPlan): InputPlan {
+  return [{ action: plan.action, jump: plan.jumpOnStep0, grabOrThrow: plan.grabOrThrowOnStep0, holdButtons: true }];
 }
 
+// InputSource that replays an InputPlan one tick at a time for either player
+// (rollout slimes keep their side's default bindings).
+export class PlanInput implements Base.InputSource {
+  private readonly down = new Set<string>();
+  private readonly bindings: Base.KeyBindings;
+
+  constructor(isPlayer1: boolean) {
+    this.bindings = Base.defaultBindings(isPlayer1);
+  }
 
+  // Select the keys for tick `step` (0-based, relative to the start of the plan).
+  setStep(plan: InputPlan, step: number): void {
+    this.down.clear();
+    let start = 0;
+    for (let i = 0; i < plan.length; i++) {
+      const seg = plan[i];
+      const isLast = i === plan.length - 1;
+      const end = seg.ticks === undefined ? Infinity : start + seg.ticks;
+      if (step < end || isLast) {
+        const firstTick = step === start;
+        const pressed = seg.holdButtons || firstTick;
+        if (seg.action === 'LEFT') this.down.add(this.bindings.left);
+        if (seg.action === 'RIGHT') this.down.add(this.bindings.right);
+        if (seg.jump && pressed) this.down.add(this.bindings.jump);
+        if (seg.grabOrThrow && pressed) this.down.add(this.bindings.grab);
+        return;
+      }
+      start = end;
+    }
+  }
+
+  isDown(code: string): boolean {
+    return this.down.has(code);
+  }
+}
@@ -1,8 +1,18 @@
-import type { InputSource } from '../base/index.js';
+import type { InputSource, KeyBindings } from '../base/index.js';
 
 export class VirtualInput implements InputSource {
   private keys: Record<string, boolean> = {};
 
+  // A frozen copy of a slime's keys as `source` has them now. Bots reuse one VirtualInput, so
+  // handing another bot the live object would show it this tick's keys once they are written.
+  static snapshot(source: InputSource, bindings: KeyBindings): VirtualInput {
+    const copy = new VirtualInput();
+    for (const code of [bindings.left, bindings.right, bindings.jump, bindings.grab]) {
+      copy.setKey(code, source.isDown(code));
+    }
+    return copy;
+  }
+
   setKey(code: string, down: boolean): void {
     this.keys[code] = down;
   }
@@ -15,5 +25,3 @@ export class VirtualInput implements InputSource {
     return !!this.keys[code];
   }
 }
-
-
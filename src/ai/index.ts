@@ -1,7 +1,21 @@
+
 export { AIBase } from './AIBase.js';
+export { AI_DIFFICULTIES, NORMAL_DIFFICULTY, getAIDifficulty, liveDifficulty } from './Difficulty.js';
+export type { AIDifficulty } from './Difficulty.js';
+export { BallPerception, seededRandom } from './Perception.js';
 export { AIPIDChase } from './AIPIDChase.js';
 export { VirtualInput } from './VirtualInput.js';
+export { BotDuel } from './BotDuel.js';
 export { SimulationBase } from './SimulationBase.js';
 export type { SimulationOutcome } from './SimulationBase.js';
-
-
+export { RolloutSimulator } from './RolloutSimulator.js';
+export type { RolloutMode, RolloutWorld, RolloutPlans, RolloutResult, NoMetrics } from './RolloutSimulator.js';
+export { planFromInput, singleActionPlan, sustainedPlan, PlanInput } from './UserIntent.js';
+export type { MoveAction, PlayerPlan, PlanSegment, InputPlan } from './UserIntent.js';
+export { SideFrame } from './SideFrame.js';
+export type { FramedBody, FramedState } from './SideFrame.js';
+export { PlanSearch, SINGLE_ACTION_SEARCH, firstMove, shiftPlan, countJumps } from './PlanSearch.js';
+export type { PlanSearchSettings, PlanSearchRequest, PlanSearchResult } from './PlanSearch.js';
+export { MLPPolicy, policyFeatures, POLICY_FEATURES, POLICY_OUTPUTS } from './LearnedPolicy.js';
+export type { LearnedPolicyWeights, PolicyLayer, PolicyDecision } from './LearnedPolicy.js';
+export { LearnedPolicyAI } from './LearnedPolicyAI.js';
@@ -1,3 +1,7 @@
-export { Game } from '../base/Game.js';
-
 
+export { BUILT_IN_MODES, BUILT_IN_DRILL_MODES } from './modes.js';
+export { Game } from '../base/Game.js';
+export { Match } from '../base/Match.js';
+export type { MatchInputs, MatchOptions } from '../base/Match.js';
+export { registerGameMode, getGameMode, getGameModes } from '../base/GameMode.js';
+export type { GameMode, GameModeDefinition, ModeState, ScoreDisplay } from '../base/GameMode.js';
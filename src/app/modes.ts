@@ -0,0 +1,19 @@
+import * as Base from '../base/index.js';
+import * as Soccer from '../soccer/index.js';
+import * as Volleyball from '../volleyball/index.js';
+import * as Basketball from '../basketball/index.js';
+import * as Tennis from '../tennis/index.js';
+import * as Training from '../training/index.js';
+
+// Built-in sports, in menu order. Importing the app entry point registers them.
+export const BUILT_IN_MODES: readonly Base.GameModeDefinition[] = [
+  Soccer.SOCCER_MODE,
+  Volleyball.VOLLEYBALL_MODE,
+  Basketball.BASKETBALL_MODE,
+  Tennis.TENNIS_MODE,
+];
+
+// Built-in training drills (solo modes), in menu order
+export const BUILT_IN_DRILL_MODES: readonly Base.GameModeDefinition[] = Training.BUILT_IN_DRILLS.map(Training.createDrillMode);
+
+[...BUILT_IN_MODES, ...BUILT_IN_DRILL_MODES].forEach((mode) => Base.registerGameMode(mode));
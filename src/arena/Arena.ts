@@ -0,0 +1,230 @@
+import * as Base from '../base/index.js';
+import * as AI from '../ai/index.js';
+import { Match } from '../base/Match.js';
+import { checkSeatSymmetry } from './SeatCheck.js';
+import type { ArenaEntrant } from './Entrant.js';
+import { playArenaMatch, type ArenaMatchResult } from './ArenaMatch.js';
+import { eloIntervals, eloRatings, wilsonInterval, type RatedGame } from './Ratings.js';
+
+export interface ArenaOptions {
+  entrants: readonly ArenaEntrant[];
+  modes: readonly Base.GameMode[];
+  rules: Base.RuleSet;
+  matchesPerPairing: number; // per mode; played in pairs, so rounded up to an even number
+  seed: number;
+  tickLimit?: number;
+}
+
+// One entrant's results in one mode, against the whole field
+export interface ArenaStanding {
+  name: string;
+  games: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  score: number; // (wins + draws / 2) / games
+  scoreLow: number; // 95% interval
+  scoreHigh: number;
+  elo: number;
+  eloLow: number; // 95% interval
+  eloHigh: number;
+  avgPointSeconds: number; // mean length of the points in its matches
+}
+
+// Head to head: results from `a`'s point of view
+export interface ArenaPairing {
+  a: string;
+  b: string;
+  games: number;
+  winsA: number;
+  draws: number;
+  winsB: number;
+  scoreA: number;
+  scoreLow: number; // 95% interval
+  scoreHigh: number;
+  avgPointSeconds: number;
+}
+
+export interface ArenaModeReport {
+  mode: Base.GameMode;
+  standings: ArenaStanding[]; // best Elo first
+  pairings: ArenaPairing[];
+}
+
+export interface ArenaReport {
+  rules: string;
+  seed: number;
+  matchesPerPairing: number;
+  tickLimit: number | null;
+  matches: number;
+  modes: ArenaModeReport[];
+}
+
+// Called after every match (e.g. for progress output)
+export type ArenaProgress = (result: ArenaMatchResult, done: number, total: number) => void;
+
+interface ScheduledMatch {
+  mode: Base.GameMode;
+  left: ArenaEntrant;
+  right: ArenaEntrant;
+  seed: number;
+}
+
+// --- ARENA (Round-Robin Bot Evaluation) ---
+// Every pair of entrants plays `matchesPerPairing` seeded matches in each mode they both play.
+// Matches come in pairs with the same seed and the sides swapped, so neither entrant gets the
+// better end more often. The report gives each entrant's score with a 95% interval, Elo ratings
+// (with bootstrap intervals) and average point length, per mode and per pairing.
+export function runArena(options: ArenaOptions, onProgress?: ArenaProgress): ArenaReport {
+  const names = new Set<string>();
+  for (const entrant of options.entrants) {
+    if (names.has(entrant.name)) throw new Error(`Duplicate arena entrant: ${entrant.name}`);
+    names.add(entrant.name);
+  }
+  if (options.entrants.length < 2) throw new Error('The arena needs at least two entrants');
+  if (!Number.isInteger(options.matchesPerPairing) || options.matchesPerPairing < 1) {
+    throw new Error(`Matches per pairing must be a positive integer: ${options.matchesPerPairing}`);
+  }
+  for (const mode of options.modes) {
+    if (Base.getGameMode(mode).solo) throw new Error(`${mode} is a solo mode; the arena needs two players`);
+    if (options.entrants.filter((entrant) => plays(entrant, mode)).length < 2) {
+      throw new Error(`Fewer than two entrants play ${mode}`);
+    }
+  }
+  // Win rates are only fair if neither seat sees the other's moves sooner
+  for (const mode of options.modes) checkSeatSymmetry(new Match(mode, { rules: options.rules }));
+
+  const schedule = scheduleMatches(options);
+  const results: ArenaMatchResult[] = [];
+  for (const scheduled of schedule) {
+    const result = playArenaMatch(scheduled.left, scheduled.right, {
+      mode: scheduled.mode,
+      rules: options.rules,
+      seed: scheduled.seed,
+      tickLimit: options.tickLimit,
+    });
+    results.push(result);
+    onProgress?.(result, results.length, schedule.length);
+  }
+
+  return {
+    rules: options.rules.id,
+    seed: options.seed,
+    matchesPerPairing: options.matchesPerPairing,
+    tickLimit: options.tickLimit ?? null,
+    matches: results.length,
+    modes: options.modes.map((mode) => modeReport(mode, options, results.filter((r) => r.mode === mode))),
+  };
+}
+
+function plays(entrant: ArenaEntrant, mode: Base.GameMode): boolean {
+  return !entrant.modes || entrant.modes.includes(mode);
+}
+
+function scheduleMatches(options: ArenaOptions): ScheduledMatch[] {
+  const random = AI.seededRandom(options.seed);
+  const pairs = Math.ceil(options.matchesPerPairing / 2);
+  const schedule: ScheduledMatch[] = [];
+  for (const mode of options.modes) {
+    const field = options.entrants.filter((entrant) => plays(entrant, mode));
+    for (let i = 0; i < field.length; i++) {
+      for (let j = i + 1; j < field.length; j++) {
+        for (let pair = 0; pair < pairs; pair++) {
+          const seed = Math.floor(random() * 2 ** 31);
+          schedule.push({ mode, left: field[i], right: field[j], seed });
+          schedule.push({ mode, left: field[j], right: field[i], seed });
+        }
+      }
+    }
+  }
+  return schedule;
+}
+
+function modeReport(mode: Base.GameMode, options: ArenaOptions, results: readonly ArenaMatchResult[]): ArenaModeReport {
+  const field = options.entrants.filter((entrant) => plays(entrant, mode)).map((entrant) => entrant.name);
+  const games: RatedGame[] = results.map((r) => ({ a: r.left, b: r.right, scoreA: r.winner === null ? 0.5 : r.winner === r.left ? 1 : 0 }));
+  const elo = eloRatings(field, games);
+  const intervals = eloIntervals(field, games, 200, options.seed);
+
+  const standings = field.map((name): ArenaStanding => {
+    const own = results.filter((r) => r.left === name || r.right === name);
+    const wins = own.filter((r) => r.winner === name).length;
+    const draws = own.filter((r) => r.winner === null).length;
+    const score = own.length > 0 ? (wins + draws / 2) / own.length : 0;
+    const [scoreLow, scoreHigh] = wilsonInterval(score, own.length);
+    const [eloLow, eloHigh] = intervals.get(name) ?? [NaN, NaN];
+    return {
+      name,
+      games: own.length,
+      wins,
+      draws,
+      losses: own.length - wins - draws,
+      score,
+      scoreLow,
+      scoreHigh,
+      elo: elo.get(name) ?? NaN,
+      eloLow,
+      eloHigh,
+      avgPointSeconds: averagePointSeconds(own),
+    };
+  });
+  standings.sort((x, y) => y.elo - x.elo);
+
+  const pairings: ArenaPairing[] = [];
+  for (let i = 0; i < field.length; i++) {
+    for (let j = i + 1; j < field.length; j++) {
+      const [a, b] = [field[i], field[j]];
+      const met = results.filter((r) => (r.left === a && r.right === b) || (r.left === b && r.right === a));
+      const winsA = met.filter((r) => r.winner === a).length;
+      const draws = met.filter((r) => r.winner === null).length;
+      const scoreA = met.length > 0 ? (winsA + draws / 2) / met.length : 0;
+      const [scoreLow, scoreHigh] = wilsonInterval(scoreA, met.length);
+      pairings.push({
+        a,
+        b,
+        games: met.length,
+        winsA,
+        draws,
+        winsB: met.length - winsA - draws,
+        scoreA,
+        scoreLow,
+        scoreHigh,
+        avgPointSeconds: averagePointSeconds(met),
+      });
+    }
+  }
+
+  return { mode, standings, pairings };
+}
+
+function averagePointSeconds(results: readonly ArenaMatchResult[]): number {
+  const points = results.flatMap((r) => r.pointTicks);
+  if (points.length === 0) return NaN;
+  return points.reduce((sum, ticks) => sum + ticks, 0) / points.length / Base.SimClock.TICKS_PER_SECOND;
+}
+
+const CSV_COLUMNS = [
+  'mode', 'entrant', 'opponent', 'games', 'wins', 'draws', 'losses',
+  'score', 'score_low', 'score_high', 'elo', 'elo_low', 'elo_high', 'avg_point_seconds',
+] as const;
+
+// One CSV row per entrant standing (opponent "all") and per pairing (Elo columns left blank)
+export function arenaToCsv(report: ArenaReport): string {
+  const rows: (string | number)[][] = [[...CSV_COLUMNS]];
+  for (const { mode, standings, pairings } of report.modes) {
+    for (const s of standings) {
+      rows.push([mode, s.name, 'all', s.games, s.wins, s.draws, s.losses,
+        s.score, s.scoreLow, s.scoreHigh, s.elo, s.eloLow, s.eloHigh, s.avgPointSeconds]);
+    }
+    for (const p of pairings) {
+      rows.push([mode, p.a, p.b, p.games, p.winsA, p.draws, p.winsB,
+        p.scoreA, p.scoreLow, p.scoreHigh, '', '', '', p.avgPointSeconds]);
+    }
+  }
+  return rows.map((row) => row.map(csvField).join(',')).join('\n') + '\n';
+}
+
+function csvField(value: string | number): string {
+  if (typeof value === 'number') return Number.isFinite(value) ? String(Math.round(value * 1000) / 1000) : '';
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
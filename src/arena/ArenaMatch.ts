@@ -0,0 +1,72 @@
+import * as Base from '../base/index.js';
+import * as AI from '../ai/index.js';
+import { Match } from '../base/Match.js';
+import type { ArenaEntrant } from './Entrant.js';
+
+// Longest an arena match may run (3 minutes @ 60Hz) before the leader wins it (level: a draw)
+export const ARENA_TICK_LIMIT = 3 * 60 * Base.SimClock.TICKS_PER_SECOND;
+
+// Most the ball is nudged sideways at each kickoff/serve (px, either way)
+export const KICKOFF_JITTER = 30;
+
+export interface ArenaMatchSettings {
+  mode: Base.GameMode;
+  rules: Base.RuleSet;
+  seed: number;
+  tickLimit?: number;
+}
+
+export interface ArenaMatchResult {
+  mode: Base.GameMode;
+  seed: number;
+  left: string; // entrant names by starting side
+  right: string;
+  winner: string | null; // null: a draw
+  score: [number, number]; // by starting side
+  ticks: number;
+  pointTicks: number[]; // length of every point, serve to score
+}
+
+// --- ARENA MATCH (One Seeded Headless Match) ---
+// Plays two entrants against each other without rendering. Unlike live play, both bots read the
+// other's input from the tick before (see BotDuel), so neither side sees the other's move first.
+// Bot matches are deterministic, so the seed varies them: it offsets the ball at every kickoff or
+// serve (up to KICKOFF_JITTER) and seeds both bots. The same seed always replays the same match.
+export function playArenaMatch(left: ArenaEntrant, right: ArenaEntrant, settings: ArenaMatchSettings): ArenaMatchResult {
+  const { mode, rules, seed } = settings;
+  const tickLimit = settings.tickLimit ?? ARENA_TICK_LIMIT;
+  const random = AI.seededRandom(seed);
+  const match = new Match(mode, { rules });
+
+  let pointStart = 0;
+  const pointTicks: number[] = [];
+  const jitterServe = (): void => {
+    const dx = (random() * 2 - 1) * KICKOFF_JITTER;
+    match.ball.x += dx;
+    match.ball.prevX += dx;
+    pointStart = match.clock.tick;
+  };
+  jitterServe();
+  match.events.on('roundReset', jitterServe);
+  match.events.on('pointScored', () => pointTicks.push(match.clock.tick - pointStart));
+
+  const leftAI = left.create(match, seed * 2 + 1);
+  const duel = new AI.BotDuel(match, leftAI, right.create(match, seed * 2 + 2));
+  while (!match.isOver() && match.clock.tick < tickLimit) duel.step();
+
+  // Results are by starting side; after switching ends (volleyball sets) the left entrant plays side 2
+  const leftOnSide1 = duel.aiOn(1) === leftAI;
+  let side = match.winner;
+  if (side === null && match.score1 !== match.score2) side = match.score1 > match.score2 ? 1 : 2;
+
+  return {
+    mode,
+    seed,
+    left: left.name,
+    right: right.name,
+    winner: side === null ? null : (duel.aiOn(side) === leftAI ? left.name : right.name),
+    score: leftOnSide1 ? [match.score1, match.score2] : [match.score2, match.score1],
+    ticks: match.clock.tick,
+    pointTicks,
+  };
+}
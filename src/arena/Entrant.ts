@@ -0,0 +1,48 @@
+import type * as Base from '../base/index.js';
+import * as AI from '../ai/index.js';
+import type { Match } from '../base/Match.js';
+
+// --- ARENA ENTRANT (A Bot Under Test) ---
+// One AI implementation as the arena sees it: a name for the standings and a factory for a fresh
+// bot per match. `seed` differs from match to match; bots with randomness should seed it from
+// there so results replay exactly. User modules export entrants of this shape.
+export interface ArenaEntrant {
+  readonly name: string;
+  // Modes it can play (default: every mode in the run)
+  readonly modes?: readonly Base.GameMode[];
+  create(match: Match, seed: number): AI.AIBase;
+}
+
+// AIPIDChase: the ball-chasing baseline
+export const PID_ENTRANT: ArenaEntrant = {
+  name: 'pid',
+  create: (match) => new AI.AIPIDChase(match.rules),
+};
+
+// The mode's own AI (SoccerAI, VolleyballAI, ...) at a difficulty level
+export function modeAIEntrant(difficulty: AI.AIDifficulty): ArenaEntrant {
+  return {
+    name: difficulty.id,
+    create: (match, seed) => match.definition.createAI(match.rules, match, difficulty, seed),
+  };
+}
+
+// A trained policy (see LearnedPolicyAI), for the mode it was trained for
+export function learnedPolicyEntrant(policy: AI.MLPPolicy, name: string = policy.name): ArenaEntrant {
+  return {
+    name,
+    modes: [policy.mode],
+    create: (match, seed) => new AI.LearnedPolicyAI(match.rules, policy, undefined, seed),
+  };
+}
+
+// Built-ins by name: 'pid' plus each difficulty id ('easy', 'normal', 'hard', 'expert')
+export const BUILTIN_ENTRANTS: readonly ArenaEntrant[] = [PID_ENTRANT, ...AI.AI_DIFFICULTIES.map(modeAIEntrant)];
+
+export function getBuiltinEntrant(name: string): ArenaEntrant {
+  const entrant = BUILTIN_ENTRANTS.find((candidate) => candidate.name === name);
+  if (!entrant) {
+    throw new Error(`Unknown arena entrant: ${name} (built-ins: ${BUILTIN_ENTRANTS.map((e) => e.name).join(', ')})`);
+  }
+  return entrant;
+}
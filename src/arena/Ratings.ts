@@ -0,0 +1,95 @@
+import * as AI from '../ai/index.js';
+
+// Ratings are centred here (the field's geometric-mean strength)
+export const ELO_BASE = 1500;
+
+// Virtual draws added between every pair that met, so a perfect record still has a finite rating
+const PRIOR_DRAWS = 1;
+const MAX_ITERATIONS = 500;
+const TOLERANCE = 1e-9;
+
+// One game for rating purposes: `scoreA` is 1 for an A win, 0.5 for a draw, 0 for a loss
+export interface RatedGame {
+  a: string;
+  b: string;
+  scoreA: number;
+}
+
+// 95% Wilson score interval for a success rate (draws count as half a win)
+export function wilsonInterval(rate: number, games: number, z: number = 1.96): [number, number] {
+  if (games <= 0) return [0, 1];
+  const z2 = z * z;
+  const centre = (rate + z2 / (2 * games)) / (1 + z2 / games);
+  const half = (z / (1 + z2 / games)) * Math.sqrt((rate * (1 - rate)) / games + z2 / (4 * games * games));
+  return [Math.max(0, centre - half), Math.min(1, centre + half)];
+}
+
+// --- ELO (Bradley-Terry Fit) ---
+// Ratings from all games at once rather than game by game, so the order matches were played in
+// doesn't matter. Fits Bradley-Terry strengths (minorization-maximization), then reports them on
+// the Elo scale: a 400-point gap means 10:1 odds, and the field averages ELO_BASE.
+export function eloRatings(names: readonly string[], games: readonly RatedGame[]): Map<string, number> {
+  const index = new Map(names.map((name, i) => [name, i]));
+  const n = names.length;
+  const wins = new Array<number>(n).fill(0);
+  const meetings: number[][] = names.map(() => new Array<number>(n).fill(0));
+  for (const game of games) {
+    const a = index.get(game.a);
+    const b = index.get(game.b);
+    if (a === undefined || b === undefined) throw new Error(`Rated game between unknown entrants: ${game.a} vs ${game.b}`);
+    wins[a] += game.scoreA;
+    wins[b] += 1 - game.scoreA;
+    meetings[a][b]++;
+    meetings[b][a]++;
+  }
+  for (let a = 0; a < n; a++) {
+    for (let b = 0; b < n; b++) {
+      if (a === b || meetings[a][b] === 0) continue;
+      wins[a] += PRIOR_DRAWS / 2;
+      meetings[a][b] += PRIOR_DRAWS;
+    }
+  }
+
+  let strength = new Array<number>(n).fill(1);
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const next = strength.map((s, a) => {
+      let denominator = 0;
+      for (let b = 0; b < n; b++) {
+        if (meetings[a][b] > 0) denominator += meetings[a][b] / (s + strength[b]);
+      }
+      return denominator > 0 ? wins[a] / denominator : s;
+    });
+    // Fix the scale: geometric mean 1
+    const logMean = next.reduce((sum, s) => sum + Math.log(s), 0) / n;
+    const normalized = next.map((s) => s / Math.exp(logMean));
+    const change = Math.max(...normalized.map((s, i) => Math.abs(s - strength[i])));
+    strength = normalized;
+    if (change < TOLERANCE) break;
+  }
+
+  return new Map(names.map((name, i) => [name, ELO_BASE + (400 * Math.log(strength[i])) / Math.LN10]));
+}
+
+// 95% interval for each rating: percentile bootstrap over the games (seeded, so reports replay)
+export function eloIntervals(
+  names: readonly string[],
+  games: readonly RatedGame[],
+  samples: number = 200,
+  seed: number = 1
+): Map<string, [number, number]> {
+  const random = AI.seededRandom(seed);
+  const draws = new Map<string, number[]>(names.map((name) => [name, []]));
+  for (let sample = 0; sample < samples; sample++) {
+    const resampled = games.map(() => games[Math.floor(random() * games.length)]);
+    for (const [name, elo] of eloRatings(names, resampled)) draws.get(name)?.push(elo);
+  }
+  return new Map(names.map((name) => {
+    const sorted = (draws.get(name) ?? []).sort((x, y) => x - y);
+    return [name, [percentile(sorted, 0.025), percentile(sorted, 0.975)]];
+  }));
+}
+
+function percentile(sorted: readonly number[], p: number): number {
+  if (sorted.length === 0) return NaN;
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))))];
+}
@@ -0,0 +1,45 @@
+import type * as Base from '../base/index.js';
+import * as AI from '../ai/index.js';
+import type { Match } from '../base/Match.js';
+
+// Seat check: the probes press on this tick and watch for this many
+const PROBE_PRESS_TICK = 3;
+const PROBE_TICKS = 10;
+
+// How many ticks late a bot on each seat sees its opponent's first key press
+export interface SeatDelays {
+  left: number;
+  right: number;
+}
+
+// Presses its right key on one tick and records when it first sees the opponent's right key
+class InputProbe extends AI.AIBase {
+  private readonly input = new AI.VirtualInput();
+  private tick = 0;
+  seenAt: number | null = null;
+
+  getInput(slime: Base.SlimeBase, _ball: Base.BallBase, opponent: Base.SlimeBase, opponentInput: Base.InputSource): Base.InputSource {
+    this.tick++;
+    if (this.seenAt === null && opponentInput.isDown(opponent.bindings.right)) this.seenAt = this.tick;
+    this.input.clear();
+    this.input.setKey(slime.bindings.right, this.tick === PROBE_PRESS_TICK);
+    return this.input;
+  }
+}
+
+// Checks that BotDuel gives both seats the same view: two probes press a key on the same tick and
+// must each see the other's press after the same delay. Throws if they don't.
+export function checkSeatSymmetry(match: Match): SeatDelays {
+  const left = new InputProbe(match.rules);
+  const right = new InputProbe(match.rules);
+  const duel = new AI.BotDuel(match, left, right);
+  for (let i = 0; i < PROBE_TICKS; i++) duel.step();
+  const delays = {
+    left: (left.seenAt ?? Infinity) - PROBE_PRESS_TICK,
+    right: (right.seenAt ?? Infinity) - PROBE_PRESS_TICK,
+  };
+  if (delays.left !== delays.right) {
+    throw new Error(`Bot seats are not symmetric: left sees inputs ${delays.left} ticks late, right ${delays.right}`);
+  }
+  return delays;
+}
@@ -0,0 +1,10 @@
+export { runArena, arenaToCsv } from './Arena.js';
+export type { ArenaOptions, ArenaReport, ArenaModeReport, ArenaStanding, ArenaPairing, ArenaProgress } from './Arena.js';
+export { checkSeatSymmetry } from './SeatCheck.js';
+export type { SeatDelays } from './SeatCheck.js';
+export { playArenaMatch, ARENA_TICK_LIMIT, KICKOFF_JITTER } from './ArenaMatch.js';
+export type { ArenaMatchSettings, ArenaMatchResult } from './ArenaMatch.js';
+export { PID_ENTRANT, BUILTIN_ENTRANTS, modeAIEntrant, learnedPolicyEntrant, getBuiltinEntrant } from './Entrant.js';
+export type { ArenaEntrant } from './Entrant.js';
+export { eloRatings, eloIntervals, wilsonInterval, ELO_BASE } from './Ratings.js';
+export type { RatedGame } from './Ratings.js';
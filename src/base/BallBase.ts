@@ -1,8 +1,20 @@
-import { CONFIG } from './config.js';
 import { SlimeBase } from './SlimeBase.js';
+import { SimClock } from './SimClock.js';
+import type { RuleSet } from './rules.js';
+import type { BallState } from './WorldState.js';
+import { sweepCircleCircle, sweepCircleRect } from './collision.js';
+import type { GameEventBus, GameEvents } from './events.js';
+
+// Tolerance so a ball placed exactly on a surface by the swept test still counts as touching
+const CONTACT_EPSILON = 1e-6;
+
+// Contacts by one slime closer together than this are one touch (the ball rolling over it).
+// Used by the touch-counting rules (tennis, official volleyball).
+export const TOUCH_MERGE_TICKS = 8;
 
 // Forward declaration to avoid circular dependency
 export interface GameInterface {
+  readonly events: GameEventBus;
   scorePoint(scoringPlayer: number): void;
   getTotalScore(): number;
 }
@@ -11,14 +23,16 @@ export interface GameInterface {
 export abstract class BallBase {
   x: number;
   y: number;
-  prevX: number;
+  prevX: number; // Position at the start of the current step (swept collisions, render interpolation)
   prevY: number;
   vx: number;
   vy: number;
   game: GameInterface | null;
-  frozenUntil: number; // Timestamp when ball should start moving (for reset delay)
+  clock: SimClock;
+  rules: RuleSet;
+  frozenUntil: number; // Tick when ball should start moving (for reset delay)
 
-  constructor() {
+  constructor(clock: SimClock, rules: RuleSet) {
     this.x = 0;
     this.y = 0;
     this.prevX = 0;
@@ -26,31 +40,92 @@ export abstract class BallBase {
     this.vx = 0;
     this.vy = 0;
     this.game = null; // Will be set in the Game constructor
+    this.clock = clock;
+    this.rules = rules;
     this.frozenUntil = 0;
   }
   
   // Abstract methods
   abstract reset(serverSlime?: SlimeBase | null): void;
   abstract checkGameGeometry(): void;
-  abstract draw(ctx: CanvasRenderingContext2D): void;
+  abstract draw(ctx: CanvasRenderingContext2D, alpha?: number): void;
+
+  getState(): BallState {
+    return {
+      x: this.x, y: this.y,
+      prevX: this.prevX, prevY: this.prevY,
+      vx: this.vx, vy: this.vy,
+      frozenUntil: this.frozenUntil,
+    };
+  }
+
+  setState(state: Readonly<BallState>): void {
+    this.x = state.x;
+    this.y = state.y;
+    this.prevX = state.prevX;
+    this.prevY = state.prevY;
+    this.vx = state.vx;
+    this.vy = state.vy;
+    this.frozenUntil = state.frozenUntil;
+  }
+
+  // Position blended between the previous and current step (alpha in [0, 1]) for smooth rendering
+  interpolatedPosition(alpha: number): { x: number; y: number } {
+    return {
+      x: this.prevX + (this.x - this.prevX) * alpha,
+      y: this.prevY + (this.y - this.prevY) * alpha,
+    };
+  }
+
+  // Publish a gameplay event on the owning game's bus
+  protected emit<K extends keyof GameEvents>(name: K, payload: GameEvents[K]): void {
+    this.game?.events.emit(name, payload);
+  }
+
+  // Freeze the ball in place for a number of ticks (serve/kickoff delay)
+  freezeFor(ticks: number): void {
+    this.frozenUntil = this.clock.tick + ticks;
+  }
 
-  update(p1: SlimeBase, p2: SlimeBase): void {
+  // Put the ball at rest at (x, y) with the usual reset delay (set pieces such as penalty kicks)
+  placeAt(x: number, y: number): void {
+    this.x = x;
+    this.y = y;
+    this.prevX = x;
+    this.prevY = y;
+    this.vx = 0;
+    this.vy = 0;
+    this.freezeFor(this.rules.ballResetFreezeTicks);
+  }
+
+  isFrozen(): boolean {
+    return this.clock.tick < this.frozenUntil;
+  }
+
+  // Advance one step against every slime in play (both teams)
+  update(slimes: readonly SlimeBase[]): void {
     // Check if ball is frozen (delay after reset)
-    const now = Date.now();
-    if (now < this.frozenUntil) {
+    if (this.isFrozen()) {
       return; // Don't update physics while frozen
     }
     
     this.prevX = this.x;
     this.prevY = this.y;
+
+    // A caught ball rides on its slime until thrown
+    const holder = slimes.find((slime) => slime.isHoldingBall());
+    if (holder) {
+      this.updateHeld(holder);
+      return;
+    }
     
     // Universal Physics
-    this.vy += CONFIG.gravity;
-    this.vx *= CONFIG.friction;
-    this.vy *= CONFIG.friction;
+    this.vy += this.rules.gravity;
+    this.vx *= this.rules.friction;
+    this.vy *= this.rules.friction;
     const speed = Math.hypot(this.vx, this.vy);
-    if (speed > CONFIG.ballMaxSpeed) {
-      const scale = CONFIG.ballMaxSpeed / speed;
+    if (speed > this.rules.ballMaxSpeed) {
+      const scale = this.rules.ballMaxSpeed / speed;
       this.vx *= scale;
       this.vy *= scale;
     }
@@ -60,50 +135,153 @@ export abstract class BallBase {
     this.checkUniversalBoundaries();
     this.checkGameGeometry(); 
     
-    this.checkSlimeCollision(p1); 
-    this.checkSlimeCollision(p2); 
+    for (const slime of slimes) {
+      this.checkSlimeCollision(slime);
+      if (slime.isHoldingBall()) break; // Caught: nobody else can touch it this step
+    }
+  }
+
+  // --- GRAB / CATCH / THROW ---
+  // Held: sit on top of the slime. Thrown on a second press (or at the hold limit) in the
+  // slime's facing direction, inheriting some of its motion.
+  updateHeld(holder: SlimeBase): void {
+    this.x = holder.x;
+    this.y = holder.y - this.rules.slimeRadius - this.rules.ballRadius;
+    this.vx = holder.vx;
+    this.vy = holder.vy;
+
+    const forced = this.clock.tick >= holder.holdingUntil;
+    if (!holder.throwRequested && !forced) return;
+
+    const speed = this.rules.throwSpeed;
+    this.vx = holder.facing * speed * 0.8 + holder.vx * 0.5;
+    this.vy = -speed * 0.6 + Math.min(0, holder.vy) * 0.5;
+    holder.releaseBall();
+    this.emit('throw', { slime: holder, forced });
+  }
+
+  catchBy(slime: SlimeBase): void {
+    slime.startHolding();
+    this.x = slime.x;
+    this.y = slime.y - this.rules.slimeRadius - this.rules.ballRadius;
+    this.vx = slime.vx;
+    this.vy = slime.vy;
+    this.emit('catch', { slime });
   }
   
   checkUniversalBoundaries(): void {
-    const r = CONFIG.ballRadius; 
+    const r = this.rules.ballRadius; 
     
     // Top Wall
     if (this.y < r) {
       this.y = r;
       this.vy = Math.abs(this.vy) * 0.5;
+      this.emit('wallBounce', { side: 'top' });
     }
   }
 
-  // Helper function for geometric collisions (goals, net caps)
-  resolveCircleCollision(cx: number, cy: number, cr: number): void {
+  // Helper function for geometric collisions (goals, net caps).
+  // Swept along this step's path so fast shots can't tunnel through thin obstacles.
+  // Returns the time of impact (fraction of this step, 0 = already overlapping) or null if no contact.
+  resolveCircleCollision(cx: number, cy: number, cr: number): number | null {
+    const pathX = this.x - this.prevX;
+    const pathY = this.y - this.prevY;
+    const minDist = this.rules.ballRadius + cr;
+    const toi = sweepCircleCircle(this.prevX, this.prevY, pathX, pathY, this.rules.ballRadius, cx, cy, 0, 0, cr);
+
+    if (toi !== null && toi > 0) {
+      // Rewind to the contact point and bounce there
+      this.x = this.prevX + pathX * toi;
+      this.y = this.prevY + pathY * toi;
+      this.reflectVelocity((this.x - cx) / minDist, (this.y - cy) / minDist, 0.8);
+      return toi;
+    }
+
+    // Discrete overlap (e.g. ball resting against the obstacle)
     const dx = this.x - cx;
     const dy = this.y - cy;
     const dist = Math.sqrt(dx*dx + dy*dy);
-    const minDist = CONFIG.ballRadius + cr;
     if (dist < minDist && dist > 0) {
       const angle = Math.atan2(dy, dx);
       const overlap = minDist - dist;
       this.x += Math.cos(angle) * overlap;
       this.y += Math.sin(angle) * overlap;
-      const nx = Math.cos(angle);
-      const ny = Math.sin(angle);
-      const dot = this.vx * nx + this.vy * ny;
-      this.vx = (this.vx - 1.8 * dot * nx);
-      this.vy = (this.vy - 1.8 * dot * ny);
+      this.reflectVelocity(Math.cos(angle), Math.sin(angle), 0.8);
+      return 0;
+    }
+    return null;
+  }
+
+  // Center net (volleyball, tennis): a rounded cap on top of a rectangular post.
+  // Swept against this step's path, so a max-speed ball can't tunnel through; whichever part is hit first wins.
+  resolveNetCollision(netX: number, halfNetW: number, netTopY: number, groundY: number): 'cap' | 'post' | null {
+    const r = this.rules.ballRadius;
+    const capCenterY = netTopY + halfNetW;
+    const pathX = this.x - this.prevX;
+    const pathY = this.y - this.prevY;
+    const capToi = sweepCircleCircle(this.prevX, this.prevY, pathX, pathY, r, netX, capCenterY, 0, 0, halfNetW);
+    const postHit = sweepCircleRect(
+      this.prevX, this.prevY, pathX, pathY, r,
+      netX - halfNetW, capCenterY, netX + halfNetW, groundY
+    );
+
+    if (capToi !== null && (!postHit || capToi <= postHit.t)) {
+      // Net cap collision
+      this.resolveCircleCollision(netX, capCenterY, halfNetW);
+      this.emit('netHit', { part: 'cap' });
+      return 'cap';
+    }
+    if (postHit) {
+      // Net post collision
+      this.x = postHit.x;
+      this.y = postHit.y;
+      if (this.vx * postHit.nx + this.vy * postHit.ny < 0) {
+        this.reflectVelocity(postHit.nx, postHit.ny, 0.7);
+        this.emit('netHit', { part: 'post' });
+      }
+      return 'post';
     }
+    return null;
+  }
+
+  // Reflect velocity about a unit contact normal: v -= (1 + restitution) * (v . n) * n
+  reflectVelocity(nx: number, ny: number, restitution: number): void {
+    const dot = this.vx * nx + this.vy * ny;
+    this.vx = this.vx - (1 + restitution) * dot * nx;
+    this.vy = this.vy - (1 + restitution) * dot * ny;
   }
   
   // --- CORE UNIVERSAL SLIME COLLISION DETECTION & GEOMETRY CORRECTION ---
-  checkSlimeCollision(slime: SlimeBase): void {
-    const slimeRadius = CONFIG.slimeRadius; 
-    const ballRadius = CONFIG.ballRadius; 
+  // Swept against both bodies' motion this step (slimes update before the ball), so a fast ball
+  // can't pass through the edge of a jumping slime. Returns the time of impact or null if no hit.
+  checkSlimeCollision(slime: SlimeBase): number | null {
+    const slimeRadius = this.rules.slimeRadius; 
+    const ballRadius = this.rules.ballRadius; 
+    const minDist = slimeRadius + ballRadius;
+
+    const toi = sweepCircleCircle(
+      this.prevX, this.prevY, this.x - this.prevX, this.y - this.prevY, ballRadius,
+      slime.prevX, slime.prevY, slime.x - slime.prevX, slime.y - slime.prevY, slimeRadius
+    );
+    if (toi === null) return null;
+
+    if (toi > 0) {
+      // Contact happened mid-step: keep the contact offset (relative to the slime at that instant)
+      // and re-apply it to the slime's current position, so the ball sits exactly on the surface.
+      const contactDx = (this.prevX + (this.x - this.prevX) * toi) - (slime.prevX + (slime.x - slime.prevX) * toi);
+      const contactDy = (this.prevY + (this.y - this.prevY) * toi) - (slime.prevY + (slime.y - slime.prevY) * toi);
+      if (contactDy <= 0) {
+        this.x = slime.x + contactDx;
+        this.y = slime.y + contactDy;
+      }
+    }
+
     const dx = this.x - slime.x;
     const dy = this.y - slime.y;
     const dist = Math.hypot(dx, dy);
-    const minDist = slimeRadius + ballRadius;
 
-    if (dist < minDist) {
-      if (dist === 0 || dy > 0) return; // Prevent sticking below base
+    if (dist < minDist + CONTACT_EPSILON) {
+      if (dist === 0 || dy > 0) return null; // Prevent sticking below base
       
       // 1. Position Correction (Universal)
       const angle = Math.atan2(dy, dx);
@@ -111,22 +289,31 @@ export abstract class BallBase {
       this.x += Math.cos(angle) * overlap;
       this.y += Math.sin(angle) * overlap;
 
-      // 2. Determine Collision Type
+      // 2. Open catch window: catch instead of bouncing
+      if (slime.isGrabStateActive()) {
+        this.catchBy(slime);
+        return toi;
+      }
+
+      // 3. Determine Collision Type
       const isStomp = Math.sin(angle) < -0.8; 
 
-      // 3. Resolve velocity using generic physics
+      // 4. Resolve velocity using generic physics
       this.resolveSlimeHit(slime, angle, isStomp, dx);
+      return toi;
     }
+    return null;
   }
   
   // --- GENERIC UNIVERSAL SLIME VELOCITY RESOLUTION ---
   // This is now generic and works for both soccer and volleyball
   resolveSlimeHit(slime: SlimeBase, angle: number, isStomp: boolean, dx: number): void {
-    const popForce = CONFIG.popForce; 
+    const popForce = this.rules.popForce; 
     
     // Check if ball is directly on top of slime (within threshold for vertical bounce)
-    const horizontalThreshold = CONFIG.slimeRadius * 0.3; // 30% of slime radius
+    const horizontalThreshold = this.rules.slimeRadius * 0.3; // 30% of slime radius
     const isDirectlyOnTop = Math.abs(dx) < horizontalThreshold;
+    this.emit('hit', { slime, isStomp, onTop: isDirectlyOnTop });
     
     // Slime's horizontal momentum should be a major component
     // When slime is moving, ball should inherit that momentum strongly
@@ -168,8 +355,8 @@ export abstract class BallBase {
     // Clamp AFTER collision resolution too.
     // Otherwise, collisions can temporarily inject > max speed and feel like "auto-acceleration".
     const postHitSpeed = Math.hypot(this.vx, this.vy);
-    if (postHitSpeed > CONFIG.ballMaxSpeed) {
-      const scale = CONFIG.ballMaxSpeed / postHitSpeed;
+    if (postHitSpeed > this.rules.ballMaxSpeed) {
+      const scale = this.rules.ballMaxSpeed / postHitSpeed;
       this.vx *= scale;
       this.vy *= scale;
     }
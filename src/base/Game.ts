@@ -2,23 +2,41 @@ import { CONFIG } from './config.js';
 import { InputHandler } from './InputHandler.js';
 import { TouchInput } from './TouchInput.js';
 import { GamepadInput } from './GamepadInput.js';
-import * as Soccer from '../soccer/index.js';
-import * as Volleyball from '../volleyball/index.js';
-import { SlimeBase } from './SlimeBase.js';
-import { BallBase, GameInterface } from './BallBase.js';
+import { Match } from './Match.js';
+import type { SlimeBase, InputSource } from './SlimeBase.js';
+import { PLAYER_BINDINGS, type KeyBindings } from './bindings.js';
+import { EventBus, type GameEventBus } from './events.js';
+import { getGameMode, getGameModes, registerGameMode, pointScoreDisplay, winnerText, type GameMode, type GameModeDefinition } from './GameMode.js';
+import { CAMP_LIMIT_CHOICES, RULE_PRESETS, getRulePreset, withCampLimit, type RuleSet } from './rules.js';
 import * as AI from '../ai/index.js';
+import * as Replay from '../replay/index.js';
+import * as Training from '../training/index.js';
+import * as Tournament from '../tournament/index.js';
 
-type GameMode = 'SOCCER' | 'VOLLEYBALL';
+// Bot-vs-bot tournament games are simulated in chunks of this many ticks between UI updates
+const BOT_GAME_CHUNK_TICKS = 600;
 
-interface GameClassSet {
-  SlimeClass: new (isPlayer1: boolean) => SlimeBase;
-  BallClass: new (game: GameInterface) => BallBase;
-  name: string;
-  emoji: string;
+// AI Level value for a loaded learned policy (see loadPolicyFile)
+const LEARNED_AI_LEVEL = 'learned';
+
+// A human at the keyboard: the slime they drive, their keys, and their team-play label
+interface HumanSeat {
+  slime: SlimeBase;
+  bindings: KeyBindings;
+  label?: string;
+}
+
+// Everything needed to start a game again (the next game of a series)
+interface GameSetup {
+  mode: GameMode;
+  rules: RuleSet;
+  teamSize: number;
+  singlePlayer: boolean;
+  aiOnly: boolean; // AI vs AI: bots on every slime, nobody at the keyboard
 }
 
-// --- MAIN GAME CLASS (Orchestrator) ---
-export class Game implements GameInterface {
+// --- MAIN GAME CLASS (Browser Shell: DOM, input, loop and rendering around a Match) ---
+export class Game {
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
   private input: InputHandler;
@@ -26,21 +44,58 @@ export class Game implements GameInterface {
   private gamepadInput: GamepadInput;
   private menuBtn: HTMLButtonElement;
   
-  private p1: SlimeBase | null = null;
-  private p2: SlimeBase | null = null;
-  private ball: BallBase | null = null; 
-  
-  private gameMode: GameMode | null = null; 
-  private score1: number = 0;
-  private score2: number = 0;
-  private server: number = 1; 
+  // Gameplay events of every live match (subscribe once; survives restarts)
+  readonly events: GameEventBus = new EventBus();
+
+  private match: Match | null = null;
   private running: boolean = false; 
   private modal: HTMLElement;
   private selectionModal: HTMLElement;
+  private gameButtonsContainer: HTMLElement;
+  private trainingButtonsContainer: HTMLElement | null = null;
   private winnerText: HTMLElement;
   private singlePlayerToggle: HTMLInputElement | null = null;
   private singlePlayerEnabled: boolean = false;
-  private p2AI: AI.AIBase | null = null;
+  private aiVsAiToggle: HTMLInputElement | null = null;
+  private ruleSetSelect: HTMLSelectElement | null = null;
+  private campLimitSelect: HTMLSelectElement | null = null;
+  private teamSizeSelect: HTMLSelectElement | null = null;
+  private difficultySelect: HTMLSelectElement | null = null;
+  // A trained policy loaded from a weights file, offered as an extra AI Level for its mode
+  private learnedPolicy: AI.MLPPolicy | null = null;
+  private lineupContainer: HTMLElement | null = null;
+  private seriesSelect: HTMLSelectElement | null = null;
+  private restartBtn: HTMLElement;
+  private nextGameBtn: HTMLElement | null = null;
+
+  // Controllers of the live match: slimes with an AI here are bots, the rest are local humans
+  private ais = new Map<SlimeBase, AI.AIBase>();
+  // Latest input of every slime (AIs read their opponent's)
+  private slimeInputs = new Map<SlimeBase, InputSource>();
+  // HUD tags for human slimes in team games (P1, P2, ...)
+  private humanLabels = new Map<SlimeBase, string>();
+
+  // Replay: the live match is always recorded; playback re-simulates a recorded input log
+  private recorder: Replay.ReplayRecorder | null = null;
+  private lastReplay: Replay.ReplayFile | null = null;
+  private replayPlayer: Replay.ReplayPlayer | null = null;
+  private replayControls: Replay.ReplayControls;
+  private replayPaused: boolean = false;
+  private replaySpeed: number = 1;
+  private saveReplayBtn: HTMLElement | null = null;
+  private watchReplayBtn: HTMLElement | null = null;
+
+  // Series: the live game's setup is reused for each game until a side has won the series
+  private setup: GameSetup | null = null;
+  private series: Tournament.Series | null = null;
+  // Tournament: the bracket, its rules, and the match (and players, left then right) being played
+  private tournament: Tournament.Tournament | null = null;
+  private tournamentRules: RuleSet = getRulePreset('classic');
+  private tournamentMatch: Tournament.BracketMatch | null = null;
+  private sidePlayers: [Tournament.TournamentPlayer, Tournament.TournamentPlayer] | null = null;
+  private tournamentScreen: Tournament.TournamentScreen;
+  // The players have switched ends an odd number of times this game (volleyball sets)
+  private sidesSwapped: boolean = false;
   
   private lastTime: number = 0;
   private accumulator: number = 0;
@@ -52,22 +107,6 @@ export class Game implements GameInterface {
   private fpsEstimate: number = 0;
   private fpsSmoothing: number = 0.9;
   
-  // Lookup for Instantiation with metadata
-  private readonly GAME_CLASSES: Record<GameMode, GameClassSet> = {
-    'SOCCER': {
-      SlimeClass: Soccer.SlimeSoccer,
-      BallClass: Soccer.BallSoccer,
-      name: 'Slime Soccer',
-      emoji: '⚽'
-    },
-    'VOLLEYBALL': {
-      SlimeClass: Volleyball.SlimeVolleyball,
-      BallClass: Volleyball.BallVolleyball,
-      name: 'Slime Volleyball',
-      emoji: '🏐'
-    }
-  };
-
   constructor() {
     const canvasElement = document.getElementById('gameCanvas');
     if (!canvasElement || !(canvasElement instanceof HTMLCanvasElement)) {
@@ -107,6 +146,49 @@ export class Game implements GameInterface {
     if (spToggle instanceof HTMLInputElement) {
       this.singlePlayerToggle = spToggle;
     }
+
+    // Optional: AI vs AI toggle (spectate or self-play: bots on both sides)
+    const aiVsAiToggle = document.getElementById('aiVsAiToggle');
+    if (aiVsAiToggle instanceof HTMLInputElement) {
+      this.aiVsAiToggle = aiVsAiToggle;
+    }
+
+    // Optional: rule set preset picker in the selection modal
+    const rulesSelect = document.getElementById('ruleSetSelect');
+    if (rulesSelect instanceof HTMLSelectElement) {
+      this.ruleSetSelect = rulesSelect;
+      this.createRuleSetOptions(rulesSelect);
+    }
+
+    // Optional: goal-camping limit picker (overrides the rule set's)
+    const campSelect = document.getElementById('campLimitSelect');
+    if (campSelect instanceof HTMLSelectElement) {
+      this.campLimitSelect = campSelect;
+      this.createCampLimitOptions(campSelect);
+    }
+
+    // Optional: AI difficulty picker
+    const difficultySelect = document.getElementById('aiDifficultySelect');
+    if (difficultySelect instanceof HTMLSelectElement) {
+      this.difficultySelect = difficultySelect;
+      this.createDifficultyOptions(difficultySelect);
+    }
+
+    // Optional: team size picker plus a Human/AI lineup for the extra slimes
+    const teamSelect = document.getElementById('teamSizeSelect');
+    const lineup = document.getElementById('lineupContainer');
+    if (teamSelect instanceof HTMLSelectElement && lineup) {
+      this.teamSizeSelect = teamSelect;
+      this.lineupContainer = lineup;
+      teamSelect.addEventListener('change', () => this.createLineupOptions());
+      this.createLineupOptions();
+    }
+
+    // Optional: series length picker (best of 3/5/7)
+    const seriesSelect = document.getElementById('seriesSelect');
+    if (seriesSelect instanceof HTMLSelectElement) {
+      this.seriesSelect = seriesSelect;
+    }
     
     const restartBtn = document.getElementById('restartBtn');
     const gameButtonsContainer = document.getElementById('gameButtonsContainer');
@@ -115,31 +197,109 @@ export class Game implements GameInterface {
       throw new Error('Required DOM elements not found');
     }
     
+    this.restartBtn = restartBtn;
     restartBtn.addEventListener('click', () => this.selectGame());
+    this.nextGameBtn = document.getElementById('nextGameBtn');
+    this.nextGameBtn?.addEventListener('click', () => this.playNextGame());
     this.menuBtn.addEventListener('click', () => this.returnToMenu());
     this.menuBtn.style.display = 'none';
+
+    this.replayControls = new Replay.ReplayControls({
+      onTogglePlay: () => this.toggleReplayPlayback(),
+      onSeek: (tick) => this.seekReplay(tick),
+      onSpeedChange: (speed) => { this.replaySpeed = speed; },
+    });
+
+    // Optional: replay buttons (game over modal + landing page)
+    this.saveReplayBtn = document.getElementById('saveReplayBtn');
+    this.saveReplayBtn?.addEventListener('click', () => {
+      if (this.lastReplay) this.downloadReplay(this.lastReplay);
+    });
+    this.watchReplayBtn = document.getElementById('watchReplayBtn');
+    this.watchReplayBtn?.addEventListener('click', () => {
+      if (this.lastReplay) this.startReplay(this.lastReplay);
+    });
+    const loadReplayBtn = document.getElementById('loadReplayBtn');
+    const replayFileInput = document.getElementById('replayFileInput');
+    if (loadReplayBtn && replayFileInput instanceof HTMLInputElement) {
+      loadReplayBtn.addEventListener('click', () => replayFileInput.click());
+      replayFileInput.addEventListener('change', () => {
+        const file = replayFileInput.files?.[0];
+        replayFileInput.value = '';
+        if (file) this.loadReplayFile(file);
+      });
+    }
     
-    // Dynamically create game selection buttons
+    // Optional: loading a learned opponent (a weights file from npm run train)
+    const loadPolicyBtn = document.getElementById('loadPolicyBtn');
+    const policyFileInput = document.getElementById('policyFileInput');
+    if (loadPolicyBtn && policyFileInput instanceof HTMLInputElement) {
+      loadPolicyBtn.addEventListener('click', () => policyFileInput.click());
+      policyFileInput.addEventListener('change', () => {
+        const file = policyFileInput.files?.[0];
+        policyFileInput.value = '';
+        if (file) this.loadPolicyFile(file);
+      });
+    }
+
+    // Optional: training drills, plus loading a drill from a JSON file
+    this.trainingButtonsContainer = document.getElementById('trainingButtonsContainer');
+    const loadDrillBtn = document.getElementById('loadDrillBtn');
+    const drillFileInput = document.getElementById('drillFileInput');
+    if (loadDrillBtn && drillFileInput instanceof HTMLInputElement) {
+      loadDrillBtn.addEventListener('click', () => drillFileInput.click());
+      drillFileInput.addEventListener('change', () => {
+        const file = drillFileInput.files?.[0];
+        drillFileInput.value = '';
+        if (file) this.loadDrillFile(file);
+      });
+    }
+
+    // Optional: local tournament (setup form and bracket overlay)
+    this.tournamentScreen = new Tournament.TournamentScreen({
+      onStart: (setup) => this.startTournament(setup),
+      onPlayNext: () => {
+        const next = this.tournament?.nextMatch();
+        if (next) this.playTournamentGame(next);
+      },
+      onQuit: () => this.leaveTournament(),
+    });
+    document.getElementById('tournamentBtn')?.addEventListener('click', () => {
+      this.selectionModal.style.display = 'none';
+      this.tournamentScreen.showSetup(getGameModes().filter((gameDef) => !gameDef.solo));
+    });
+
+    // Dynamically create game selection buttons (one per registered mode)
+    this.gameButtonsContainer = gameButtonsContainer;
     this.createGameButtons(gameButtonsContainer);
     window.addEventListener('resize', () => this.resize());
     this.resize();
+
+    // Players switching ends between volleyball sets take their controllers with them
+    this.events.on('sidesSwitched', () => {
+      if (!this.match || this.replayPlayer) return;
+      this.sidesSwapped = !this.sidesSwapped;
+      this.switchSides(this.match);
+    });
     
     this.startLoop();
   }
 
   private returnToMenu(): void {
+    // A tournament game left midway is not counted; its players can restart it from the bracket
+    if (this.tournament) {
+      this.showTournament('');
+      return;
+    }
+
     // Stop gameplay immediately
     this.running = false;
 
     // Clear all state so the next start is always a fresh game
-    this.gameMode = null;
-    this.p1 = null;
-    this.p2 = null;
-    this.ball = null;
-    this.p2AI = null;
-    this.score1 = 0;
-    this.score2 = 0;
-    this.server = 1;
+    this.match = null;
+    this.clearControllers();
+    this.recorder = null;
+    this.replayPlayer = null;
 
     // Clear any "stuck" inputs (touch/keyboard/gamepad)
     this.input.clear();
@@ -149,6 +309,7 @@ export class Game implements GameInterface {
 
     // UI
     this.touchInput.hide();
+    this.replayControls.hide();
     this.modal.style.display = 'none';
     this.selectionModal.style.display = 'flex';
     this.menuBtn.style.display = 'none';
@@ -157,54 +318,347 @@ export class Game implements GameInterface {
   private createGameButtons(container: HTMLElement): void {
     // Clear any existing buttons
     container.innerHTML = '';
+    if (this.trainingButtonsContainer) this.trainingButtonsContainer.innerHTML = '';
     
-    // Create buttons for each game mode
-    Object.entries(this.GAME_CLASSES).forEach(([mode, gameDef]) => {
+    // Create buttons for each game mode; solo modes (drills) go under Training
+    getGameModes().forEach((gameDef) => {
+      const parent = gameDef.solo ? this.trainingButtonsContainer : container;
+      if (!parent) return;
       const button = document.createElement('button');
-      button.id = `select${mode}`;
+      button.id = `select${gameDef.id}`;
       button.textContent = `${gameDef.emoji} ${gameDef.name}`;
-      button.addEventListener('click', () => this.startGame(mode as GameMode));
-      container.appendChild(button);
+      button.addEventListener('click', () => this.startGame(gameDef.id));
+      parent.appendChild(button);
+    });
+  }
+
+  // Add a mode after startup (built-in modes are registered before the Game is created).
+  registerMode(definition: GameModeDefinition): void {
+    registerGameMode(definition);
+    this.createGameButtons(this.gameButtonsContainer);
+  }
+
+  private createRuleSetOptions(select: HTMLSelectElement): void {
+    select.innerHTML = '';
+    RULE_PRESETS.forEach((preset) => {
+      const option = document.createElement('option');
+      option.value = preset.id;
+      option.textContent = preset.name;
+      select.appendChild(option);
     });
   }
 
+  private createCampLimitOptions(select: HTMLSelectElement): void {
+    select.innerHTML = '';
+    const choices: [string, string][] = [
+      ['', 'Rule Set Default'],
+      ['0', 'Off'],
+      ...CAMP_LIMIT_CHOICES.map((seconds): [string, string] => [String(seconds), `${seconds} Seconds`]),
+    ];
+    choices.forEach(([value, label]) => {
+      const option = document.createElement('option');
+      option.value = value;
+      option.textContent = label;
+      select.appendChild(option);
+    });
+  }
+
+  // The rule set picked in the menu, with its goal-camping override applied
+  private selectedRules(): RuleSet {
+    const rules = getRulePreset(this.ruleSetSelect?.value ?? 'classic');
+    const campLimit = this.campLimitSelect?.value ?? '';
+    return campLimit === '' ? rules : withCampLimit(rules, Number(campLimit));
+  }
+
+  private createDifficultyOptions(select: HTMLSelectElement): void {
+    select.innerHTML = '';
+    AI.AI_DIFFICULTIES.forEach((difficulty) => {
+      const option = document.createElement('option');
+      option.value = difficulty.id;
+      option.textContent = difficulty.name;
+      option.selected = difficulty === AI.NORMAL_DIFFICULTY;
+      select.appendChild(option);
+    });
+  }
+
+  // One Human/AI picker per extra slime (the first slime of each side follows the single-player toggle)
+  private createLineupOptions(): void {
+    const container = this.lineupContainer;
+    if (!container) return;
+    container.innerHTML = '';
+    const teamSize = Number(this.teamSizeSelect?.value ?? 1);
+    for (const team of [1, 2]) {
+      for (let index = 1; index < teamSize; index++) {
+        const row = document.createElement('div');
+        row.className = 'sp-toggle-container';
+        const label = document.createElement('label');
+        label.className = 'sp-label';
+        label.textContent = `Team ${team} · Slime ${index + 1}`;
+        const select = document.createElement('select');
+        select.className = 'menu-select';
+        select.id = `lineup-${team}-${index}`;
+        label.htmlFor = select.id;
+        for (const [value, text] of [['ai', 'AI'], ['human', 'Human']]) {
+          const option = document.createElement('option');
+          option.value = value;
+          option.textContent = text;
+          select.appendChild(option);
+        }
+        row.append(label, select);
+        container.appendChild(row);
+      }
+    }
+  }
+
+  private isHumanTeammate(slime: SlimeBase): boolean {
+    const select = document.getElementById(`lineup-${slime.isPlayer1 ? 1 : 2}-${slime.slot.index}`);
+    return select instanceof HTMLSelectElement && select.value === 'human';
+  }
+
+  private clearControllers(): void {
+    this.ais.clear();
+    this.slimeInputs.clear();
+    this.humanLabels.clear();
+  }
+
+  // Hand keyboard layouts to the humans (in slime order) and bots to everyone else.
+  private assignControllers(match: Match, singlePlayer: boolean, aiOnly: boolean): boolean {
+    const humans = match.slimes.filter((slime) => {
+      if (aiOnly) return false;
+      if (slime === match.p1) return true;
+      if (slime === match.p2) return !singlePlayer;
+      return this.isHumanTeammate(slime);
+    });
+    if (humans.length > PLAYER_BINDINGS.length) {
+      window.alert(`At most ${PLAYER_BINDINGS.length} local players can share the keyboard.`);
+      return false;
+    }
+    this.setControllers(match, humans.map((slime, i) => ({
+      slime,
+      bindings: PLAYER_BINDINGS[i],
+      label: match.teamSize > 1 ? `P${i + 1}` : undefined,
+    })));
+    return true;
+  }
+
+  // Humans get their keys (and team-play labels); the mode's AI drives every other slime, on
+  // either side, at the menu's difficulty.
+  private setControllers(match: Match, humans: readonly HumanSeat[]): void {
+    this.clearControllers();
+    for (const { slime, bindings, label } of humans) {
+      slime.bindings = bindings;
+      if (label) this.humanLabels.set(slime, label);
+    }
+    // Live play caps each bot's planning time, so a slow machine keeps its frame rate
+    const difficulty = AI.liveDifficulty(AI.getAIDifficulty(this.difficultySelect?.value ?? ''));
+    // A learned policy only plays the mode it was trained for; other modes get the Normal AI
+    const learned = this.difficultySelect?.value === LEARNED_AI_LEVEL ? this.learnedPolicy : null;
+    for (const slime of match.slimes) {
+      if (humans.some((human) => human.slime === slime)) continue;
+      this.ais.set(slime, learned?.mode === match.mode
+        ? new AI.LearnedPolicyAI(match.rules, learned)
+        : match.definition.createAI(match.rules, match, difficulty));
+    }
+  }
+
+  // Players switched ends (volleyball sets): every controller moves to the mirrored slime on
+  // the other team, so humans keep their keys and bots are rebuilt for their new side. Humans are
+  // labelled from then on, since slime colors stay with the side.
+  private switchSides(match: Match): void {
+    const mirror = (slime: SlimeBase): SlimeBase => {
+      const [from, to] = slime.isPlayer1 ? [match.team1, match.team2] : [match.team2, match.team1];
+      return to[from.indexOf(slime)];
+    };
+    const humans = match.slimes
+      .filter((slime) => !this.ais.has(slime))
+      .map((slime) => ({
+        slime: mirror(slime),
+        bindings: slime.bindings,
+        label: this.humanLabels.get(slime) ?? `P${PLAYER_BINDINGS.indexOf(slime.bindings) + 1}`,
+      }));
+    this.setControllers(match, humans);
+  }
+
   selectGame(): void {
     this.running = false;
+    this.replayPlayer = null;
     this.touchInput.hide();
+    this.replayControls.hide();
     this.modal.style.display = 'none';
     this.selectionModal.style.display = 'flex'; // Changed to flex for new layout
     this.menuBtn.style.display = 'none';
   }
 
   startGame(mode: GameMode): void {
-    this.gameMode = mode;
-    this.touchInput.show();
+    const rules = this.selectedRules();
+    // Solo modes (training drills) are one human against the launcher
+    const solo = getGameMode(mode).solo ?? false;
+    const teamSize = solo ? 1 : Number(this.teamSizeSelect?.value ?? 1);
+    const bestOf = solo ? 1 : Number(this.seriesSelect?.value ?? 1);
+    this.series = bestOf > 1 ? new Tournament.Series(bestOf) : null;
+    // Read single-player and AI vs AI settings at game start
+    this.launchGame({
+      mode,
+      rules,
+      teamSize,
+      singlePlayer: solo || !!this.singlePlayerToggle?.checked,
+      aiOnly: !solo && !!this.aiVsAiToggle?.checked,
+    });
+  }
+
+  private launchGame(setup: GameSetup): void {
     this.input.clear();
-    const classes = this.GAME_CLASSES[mode];
+    const match = new Match(setup.mode, { rules: setup.rules, events: this.events, teamSize: setup.teamSize });
+    this.singlePlayerEnabled = setup.singlePlayer;
+    if (!this.assignControllers(match, this.singlePlayerEnabled, setup.aiOnly)) return;
+    if (setup.aiOnly) this.touchInput.hide();
+    else this.touchInput.show();
+    this.match = match;
+    this.setup = setup;
+    this.sidesSwapped = false;
+    this.recorder = new Replay.ReplayRecorder(match);
+    this.replayPlayer = null;
     
-    this.p1 = new classes.SlimeClass(true);
-    this.p2 = new classes.SlimeClass(false);
-    this.ball = new classes.BallClass(this); 
-
-    // Read single-player setting at game start
-    this.singlePlayerEnabled = !!this.singlePlayerToggle?.checked;
-    if (!this.singlePlayerEnabled) {
-      this.p2AI = null;
-    } else {
-      // Mode-specific AI
-      if (mode === 'SOCCER') this.p2AI = new Soccer.SoccerAI();
-      else if (mode === 'VOLLEYBALL') this.p2AI = new Volleyball.VolleyballAI();
-      else this.p2AI = new AI.AIPIDChase();
-    }
-    
-    this.score1 = 0;
-    this.score2 = 0;
-    this.server = 1;
+    this.modal.style.display = 'none';
     this.selectionModal.style.display = 'none';
+    this.tournamentScreen.hide();
     this.running = true;
     this.menuBtn.style.display = 'inline-flex';
-    
-    this.resetRound();
+  }
+
+  // Game over "Next Game"/"Continue": the series goes on, or back to the bracket once it's decided
+  private playNextGame(): void {
+    const bracketMatch = this.tournamentMatch;
+    if (this.tournament && bracketMatch) {
+      if (bracketMatch.winner) this.showTournament(Tournament.matchSummary(bracketMatch));
+      else this.playTournamentGame(bracketMatch);
+    } else if (this.setup && this.series && !this.series.isOver()) {
+      this.launchGame(this.setup);
+    }
+  }
+
+  // Series and tournament games count toward their series. Returns the game over headline
+  // (the mode's result, or the winner's name in a tournament) with the series state below it.
+  private recordSeriesGame(match: Match): string {
+    const result = match.definition.resultText?.(match) ?? winnerText(match);
+    if (match.winner === null) return result;
+    // Wins go to the players, who may have switched ends since kickoff
+    const side = this.sidesSwapped ? (match.winner === 1 ? 2 : 1) : match.winner;
+
+    const tournament = this.tournament;
+    const bracketMatch = this.tournamentMatch;
+    if (tournament && bracketMatch && this.sidePlayers) {
+      const winner = this.sidePlayers[side - 1];
+      tournament.recordGame(bracketMatch, winner);
+      if (bracketMatch.series.bestOf === 1) return `${winner.name} Wins!`;
+      return `${winner.name} Wins!\n${Tournament.seriesScore(bracketMatch)}`;
+    }
+
+    const series = this.series;
+    if (!series) return result;
+    series.record(side);
+    const score = `${Math.max(series.wins1, series.wins2)}-${Math.min(series.wins1, series.wins2)}`;
+    if (series.isOver()) return `${result}\nPlayer ${side} wins the series ${score}!`;
+    return `${result}\nSeries: Player 1 ${series.wins1}-${series.wins2} Player 2`;
+  }
+
+  // --- Tournament flow ---
+  private startTournament(setup: Tournament.TournamentSetup): void {
+    try {
+      const entries = setup.seeding === 'random' ? Tournament.shuffleEntries(setup.entries) : setup.entries;
+      this.tournament = new Tournament.Tournament(entries, setup.rounds);
+    } catch (error) {
+      window.alert(`Could not start tournament: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+    this.tournamentRules = this.selectedRules();
+    this.showTournament('');
+  }
+
+  private leaveTournament(): void {
+    this.tournament = null;
+    this.tournamentMatch = null;
+    this.sidePlayers = null;
+    this.tournamentScreen.hide();
+    this.selectGame();
+  }
+
+  // Bracket between games. All-bot matches are played out headlessly first, so the bracket
+  // always stops at a match with a human in it (or the champion). An error on the way is
+  // reported and leaves the tournament.
+  private showTournament(status: string): void {
+    this.updateTournament(status).catch((error) => {
+      window.alert(`Tournament error: ${error instanceof Error ? error.message : error}`);
+      this.leaveTournament();
+    });
+  }
+
+  private async updateTournament(status: string): Promise<void> {
+    const tournament = this.tournament;
+    if (!tournament) return;
+    this.running = false;
+    this.match = null;
+    this.clearControllers();
+    this.recorder = null;
+    this.replayPlayer = null;
+    this.tournamentMatch = null;
+    this.sidePlayers = null;
+    this.touchInput.hide();
+    this.replayControls.hide();
+    this.modal.style.display = 'none';
+    this.menuBtn.style.display = 'none';
+
+    let next = tournament.nextMatch();
+    while (next && next.players.every((player) => player?.bot)) {
+      this.tournamentScreen.showBracket(tournament, `Simulating ${Tournament.matchTitle(next)}…`, false);
+      if (!(await this.simulateBotMatch(tournament, next))) return;
+      status = Tournament.matchSummary(next);
+      next = tournament.nextMatch();
+    }
+
+    const champion = tournament.champion();
+    if (champion) {
+      status = `🏆 ${champion.name} wins the tournament!`;
+    } else if (next) {
+      const mode = getGameMode(tournament.roundSettings[next.round].mode);
+      status = [status, `Next up: ${Tournament.matchTitle(next)} · ${mode.emoji} ${mode.name}`].filter(Boolean).join('\n');
+    }
+    this.tournamentScreen.showBracket(tournament, status, next !== null);
+  }
+
+  // Play out a bot-vs-bot series, yielding to the browser between chunks. A game still level
+  // at the time limit goes to the better seed. False if the tournament was left meanwhile.
+  private async simulateBotMatch(tournament: Tournament.Tournament, bracketMatch: Tournament.BracketMatch): Promise<boolean> {
+    const { mode } = tournament.roundSettings[bracketMatch.round];
+    while (!bracketMatch.winner) {
+      const [left, right] = tournament.sidesForGame(bracketMatch);
+      // Seeded by game number, so each game of the series plays out differently
+      const game = new Tournament.BotGame(mode, this.tournamentRules, bracketMatch.series.results.length + 1);
+      while (!game.advance(BOT_GAME_CHUNK_TICKS)) {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        if (this.tournament !== tournament) return false;
+      }
+      const side = game.result();
+      tournament.recordGame(bracketMatch, side === null ? tournament.betterSeed(bracketMatch) : side === 1 ? left : right);
+    }
+    return true;
+  }
+
+  // One game of a bracket match; a human facing a bot plays single player on the left
+  private playTournamentGame(bracketMatch: Tournament.BracketMatch): void {
+    const tournament = this.tournament;
+    if (!tournament) return;
+    const sides = tournament.sidesForGame(bracketMatch);
+    this.tournamentMatch = bracketMatch;
+    this.sidePlayers = sides;
+    this.series = null;
+    this.launchGame({
+      mode: tournament.roundSettings[bracketMatch.round].mode,
+      rules: this.tournamentRules,
+      teamSize: 1,
+      singlePlayer: sides[1].bot,
+      aiOnly: false,
+    });
   }
 
   resize(): void {
@@ -233,55 +687,209 @@ export class Game implements GameInterface {
     this.ctx.scale(finalWidth / CONFIG.internalWidth, finalHeight / CONFIG.internalHeight);
   }
 
-  scorePoint(scoringPlayer: number): void {
-    if (scoringPlayer === 1) this.score1++; else this.score2++;
-    
-    if (this.score1 >= CONFIG.winningScore || this.score2 >= CONFIG.winningScore) {
-      this.endGame();
-    } else {
-      if (this.gameMode === 'VOLLEYBALL') this.server = scoringPlayer;
-      this.resetRound();
+  endGame(): void {
+    this.running = false;
+    this.touchInput.hide();
+    const match = this.match;
+    if (match) this.winnerText.textContent = this.recordSeriesGame(match);
+    this.lastReplay = this.recorder ? this.recorder.finish() : null;
+    this.recorder = null;
+    const replayButtonDisplay = this.lastReplay ? '' : 'none';
+    if (this.saveReplayBtn) this.saveReplayBtn.style.display = replayButtonDisplay;
+    if (this.watchReplayBtn) this.watchReplayBtn.style.display = replayButtonDisplay;
+    // Series go on with "Next Game"; tournament games always return to the bracket via "Continue"
+    const seriesContinues = !!this.series && !this.series.isOver();
+    if (this.nextGameBtn) {
+      this.nextGameBtn.style.display = this.tournament || seriesContinues ? 'inline-block' : 'none';
+      this.nextGameBtn.textContent = this.tournament ? 'Continue' : 'Next Game';
     }
+    this.restartBtn.style.display = this.tournament ? 'none' : '';
+    this.modal.style.display = 'block';
   }
 
-  getTotalScore(): number {
-    return this.score1 + this.score2;
+  startReplay(replay: Replay.ReplayFile): void {
+    this.input.clear();
+    this.clearControllers();
+    this.recorder = null;
+    this.sidePlayers = null;
+    this.replayPlayer = new Replay.ReplayPlayer(replay);
+    this.match = this.replayPlayer.match;
+    this.replayPaused = false;
+    this.replaySpeed = 1;
+    this.accumulator = 0;
+
+    this.touchInput.hide();
+    this.modal.style.display = 'none';
+    this.selectionModal.style.display = 'none';
+    this.menuBtn.style.display = 'inline-flex';
+    this.replayControls.show(replay.ticks);
+    this.replayControls.setPlaying(true);
+    this.replayControls.setProgress(0, replay.ticks);
+    this.running = true;
   }
 
-  resetRound(): void {
-    if (!this.p1 || !this.p2 || !this.ball) return;
-    
-    this.p1.reset();
-    this.p2.reset();
-    
-    let serverSlime: SlimeBase | null = null;
-    if (this.gameMode === 'VOLLEYBALL') {
-      serverSlime = this.server === 1 ? this.p1 : this.p2;
+  private toggleReplayPlayback(): void {
+    const player = this.replayPlayer;
+    if (!player) return;
+    // Pressing play at the end restarts from the beginning
+    if (this.replayPaused && player.isAtEnd()) this.seekReplay(0);
+    this.replayPaused = !this.replayPaused;
+    this.replayControls.setPlaying(!this.replayPaused);
+  }
+
+  private seekReplay(tick: number): void {
+    const player = this.replayPlayer;
+    if (!player) return;
+    player.seek(tick);
+    this.match = player.match;
+    this.replayControls.setProgress(player.currentTick, player.length);
+  }
+
+  private updateReplay(player: Replay.ReplayPlayer): void {
+    if (this.replayPaused) return;
+    player.step();
+    if (player.isAtEnd()) {
+      this.replayPaused = true;
+      this.replayControls.setPlaying(false);
     }
-    
-    this.ball.reset(serverSlime);
+    this.replayControls.setProgress(player.currentTick, player.length);
   }
 
-  endGame(): void {
-    this.running = false;
-    this.touchInput.hide();
-    this.winnerText.textContent = this.score1 > this.score2 ? "Player 1 Wins!" : "Player 2 Wins!";
-    this.modal.style.display = 'block';
+  // A drill file becomes a new Training entry and starts right away
+  private async loadDrillFile(file: File): Promise<void> {
+    try {
+      const definition = Training.createDrillMode(Training.parseDrill(await file.text()));
+      this.registerMode(definition);
+      this.startGame(definition.id);
+    } catch (error) {
+      console.error('Could not load drill:', error);
+      window.alert(`Could not load drill: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  // A weights file becomes the "learned" AI Level (replacing any earlier one) and is selected
+  private async loadPolicyFile(file: File): Promise<void> {
+    try {
+      const policy = AI.MLPPolicy.fromWeights(JSON.parse(await file.text()));
+      const mode = getGameMode(policy.mode);
+      this.learnedPolicy = policy;
+      const select = this.difficultySelect;
+      if (!select) return;
+      let option = Array.from(select.options).find((candidate) => candidate.value === LEARNED_AI_LEVEL);
+      if (!option) {
+        option = document.createElement('option');
+        option.value = LEARNED_AI_LEVEL;
+        select.appendChild(option);
+      }
+      option.textContent = `Learned: ${policy.name} (${mode.name})`;
+      select.value = LEARNED_AI_LEVEL;
+    } catch (error) {
+      console.error('Could not load policy:', error);
+      window.alert(`Could not load policy: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private async loadReplayFile(file: File): Promise<void> {
+    try {
+      this.startReplay(Replay.parseReplay(await file.text()));
+    } catch (error) {
+      console.error('Could not load replay:', error);
+      window.alert(`Could not load replay: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private downloadReplay(replay: Replay.ReplayFile): void {
+    const blob = new Blob([Replay.serializeReplay(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `slime-${replay.mode.toLowerCase()}-replay.json`;
+    link.click();
+    URL.revokeObjectURL(url);
   }
 
   update(): void {
-    if (!this.running || !this.p1 || !this.p2 || !this.ball) return;
+    if (!this.running || !this.match) return;
+    if (this.replayPlayer) {
+      this.updateReplay(this.replayPlayer);
+      return;
+    }
+    const match = this.match;
     
     // Poll Gamepad
     this.gamepadInput.update();
 
-    this.p1.update(this.input);
-    const p2Input = this.p2AI ? this.p2AI.getInput(this.p2, this.ball, this.p1, this.input) : this.input;
-    this.p2.update(p2Input);
-    this.ball.update(this.p1, this.p2);
+    // Humans all read the shared keyboard/touch/gamepad state through their own bindings
+    for (const slime of match.slimes) {
+      const ai = this.ais.get(slime);
+      if (!ai) {
+        this.slimeInputs.set(slime, this.input);
+        continue;
+      }
+      const opponent = match.opponentOf(slime);
+      this.slimeInputs.set(slime, ai.getInput(slime, match.ball, opponent, this.slimeInputs.get(opponent) ?? this.input));
+    }
+    const inputOf = (slime: SlimeBase): InputSource => this.slimeInputs.get(slime) ?? this.input;
+    const teammateInputs = match.teammates.map(inputOf);
+    this.recorder?.record(inputOf(match.p1), inputOf(match.p2), teammateInputs);
+    match.step({ p1: inputOf(match.p1), p2: inputOf(match.p2), teammates: teammateInputs });
+
+    if (match.isOver()) this.endGame();
+  }
+
+  // Fraction of a physics step left in the accumulator, used to interpolate entities between steps.
+  // A paused replay shows the exact recorded frame.
+  private renderAlpha(): number {
+    if (this.replayPlayer && this.replayPaused) return 1;
+    return Math.min(1, this.accumulator / this.timeStep);
+  }
+
+  // HUD score: the mode's own notation if it has one (tennis), else the point score
+  private drawScore(match: Match): void {
+    const display = match.definition.scoreDisplay?.(match) ?? pointScoreDisplay(match);
+    this.ctx.save();
+    this.ctx.fillStyle = '#000';
+    this.ctx.font = 'bold 30px Inter';
+    this.ctx.fillText(display.p1, 60, 50);
+    this.ctx.textAlign = 'right';
+    this.ctx.fillText(display.p2, CONFIG.internalWidth - 60, 50);
+    if (display.center) {
+      this.ctx.font = 'bold 20px Inter';
+      this.ctx.textAlign = 'center';
+      this.ctx.fillText(display.center, CONFIG.internalWidth / 2, 45);
+    }
+    this.ctx.restore();
+  }
+
+  // Tournament games: player names under the score, following the players if they switch ends
+  private drawPlayerNames(): void {
+    if (!this.sidePlayers) return;
+    const [left, right] = this.sidesSwapped ? [this.sidePlayers[1], this.sidePlayers[0]] : this.sidePlayers;
+    this.ctx.save();
+    this.ctx.fillStyle = '#000';
+    this.ctx.font = 'bold 16px Inter';
+    this.ctx.fillText(left.name, 60, 75);
+    this.ctx.textAlign = 'right';
+    this.ctx.fillText(right.name, CONFIG.internalWidth - 60, 75);
+    this.ctx.restore();
+  }
+
+  // Team games: tag each human's slime so players can find themselves
+  private drawHumanLabels(match: Match, alpha: number): void {
+    if (this.humanLabels.size === 0) return;
+    this.ctx.save();
+    this.ctx.font = 'bold 16px Inter';
+    this.ctx.textAlign = 'center';
+    this.ctx.fillStyle = '#000';
+    for (const [slime, label] of this.humanLabels) {
+      const pos = slime.interpolatedPosition(alpha);
+      this.ctx.fillText(label, pos.x, pos.y - match.rules.slimeRadius - 8);
+    }
+    this.ctx.restore();
   }
 
   draw(): void {
+    const alpha = this.renderAlpha();
     // Clear background
     this.ctx.fillStyle = '#87ceeb';
     this.ctx.fillRect(0, 0, CONFIG.internalWidth, CONFIG.internalHeight);
@@ -289,19 +897,27 @@ export class Game implements GameInterface {
     const groundY = CONFIG.internalHeight - CONFIG.groundHeight;
     this.ctx.fillStyle = '#27ae60'; 
     this.ctx.fillRect(0, groundY, CONFIG.internalWidth, CONFIG.groundHeight);
-    if (this.running && this.gameMode) {
+    if (this.running && this.match) {
+      const match = this.match;
       
-      if (this.gameMode === 'SOCCER') this.drawSoccerGoals(groundY);
-      if (this.gameMode === 'VOLLEYBALL') this.drawVolleyballNet(groundY);
+      match.definition.drawArena(this.ctx, groundY, match.rules);
       
-      this.ctx.fillStyle = '#000';
-      this.ctx.font = 'bold 30px Inter';
-      this.ctx.fillText(`P1: ${this.score1}`, 60, 50);
-      this.ctx.fillText(`P2: ${this.score2}`, CONFIG.internalWidth - 130, 50);
-      if (this.p1 && this.p2 && this.ball) {
-        this.p1.draw(this.ctx, this.ball);
-        this.p2.draw(this.ctx, this.ball);
-        this.ball.draw(this.ctx);
+      this.drawScore(match);
+      this.drawPlayerNames();
+      for (const slime of match.slimes) {
+        slime.draw(this.ctx, match.ball, slime.isGrabStateActive(), alpha);
+      }
+      this.drawHumanLabels(match, alpha);
+      match.ball.draw(this.ctx, alpha);
+      match.definition.drawOverlay?.(this.ctx, match, alpha);
+
+      if (this.replayPlayer) {
+        this.ctx.save();
+        this.ctx.fillStyle = 'rgba(0,0,0,0.6)';
+        this.ctx.font = 'bold 22px Inter';
+        this.ctx.textAlign = 'center';
+        this.ctx.fillText('REPLAY', CONFIG.internalWidth / 2, 85);
+        this.ctx.restore();
       }
     }
 
@@ -316,54 +932,24 @@ export class Game implements GameInterface {
     }
   }
   
-  drawSoccerGoals(groundY: number): void {
-    const goalH = CONFIG.SOCCER_GOAL_H;
-    const crossR = CONFIG.SOCCER_CROSSBAR_R;
-    
-    this.ctx.fillStyle = 'rgba(255, 255, 255, 0.5)';
-    // Left Goal Post/Net
-    this.ctx.fillRect(0, groundY - goalH, 20, goalH);
-    this.ctx.fillStyle = '#ecf0f1';
-    this.ctx.beginPath();
-    this.ctx.arc(0, groundY - goalH, crossR, 0, Math.PI*2);
-    this.ctx.fill();
-    this.ctx.stroke();
-    // Right Goal Post/Net
-    this.ctx.fillRect(CONFIG.internalWidth - 20, groundY - goalH, 20, goalH);
-    this.ctx.beginPath();
-    this.ctx.arc(CONFIG.internalWidth, groundY - goalH, crossR, 0, Math.PI*2);
-    this.ctx.fill();
-    this.ctx.stroke();
-  }
-  
-  drawVolleyballNet(groundY: number): void {
-    const netW = CONFIG.VOLLEYBALL_NET_W;
-    const netH = CONFIG.VOLLEYBALL_NET_H;
-    
-    this.ctx.fillStyle = '#fff';
-    const netX = (CONFIG.internalWidth - netW) / 2;
-    const netY = groundY - netH;
-    this.ctx.fillRect(netX, netY, netW, netH);
-    
-    this.ctx.strokeStyle = '#000';
-    this.ctx.strokeRect(netX, netY, netW, netH);
-  }
-
   startLoop(): void {
     const loop = (timestamp: number) => {
       let deltaTime = timestamp - this.lastTime;
       this.lastTime = timestamp;
       if (deltaTime > 100) deltaTime = 100;
-      this.accumulator += deltaTime;
+      // Replay speed scales simulated time; allow proportionally more sub-steps so 4x keeps up.
+      const speed = this.replayPlayer ? this.replaySpeed : 1;
+      const maxSubSteps = this.maxSubStepsPerFrame * Math.ceil(speed);
+      this.accumulator += deltaTime * speed;
       let subSteps = 0;
-      while (this.accumulator >= this.timeStep && subSteps < this.maxSubStepsPerFrame) {
+      while (this.accumulator >= this.timeStep && subSteps < maxSubSteps) {
         this.update();
         this.accumulator -= this.timeStep;
         subSteps++;
       }
       // If we're consistently behind (common on mobile), don't let the fixed-step loop spiral forever.
       // Dropping accumulated time keeps the game responsive instead of "lagging harder and harder".
-      if (subSteps === this.maxSubStepsPerFrame) {
+      if (subSteps === maxSubSteps) {
         this.accumulator = 0;
       }
 
@@ -0,0 +1,114 @@
+import type { SlimeBase, TeamSlot } from './SlimeBase.js';
+import type { BallBase, GameInterface } from './BallBase.js';
+import type { SimClock } from './SimClock.js';
+import type { RuleSet } from './rules.js';
+import type { Match } from './Match.js';
+import type { AIBase } from '../ai/AIBase.js';
+import type { AIDifficulty } from '../ai/Difficulty.js';
+
+// Mode id as stored in replays and world states (e.g. 'SOCCER')
+export type GameMode = string;
+
+// Extra per-match bookkeeping a mode keeps beyond score1/score2 (e.g. tennis games and sets).
+// Flat numbers only, so it round-trips through world states as plain JSON.
+export type ModeState = Record<string, number>;
+
+// HUD score text: left-aligned for P1, right-aligned for P2, optional centered line
+export interface ScoreDisplay {
+  p1: string;
+  p2: string;
+  center?: string;
+}
+
+// --- GAME MODE DEFINITION (Everything a Sport Plugs Into Match & Game) ---
+// Match and Game only talk to modes through this interface, so a new sport is a new
+// definition plus a registerGameMode() call — no orchestrator changes.
+export interface GameModeDefinition {
+  readonly id: GameMode;
+
+  // Menu metadata
+  readonly name: string;
+  readonly emoji: string;
+  // Practice modes with no opponent (training drills): listed under Training, one human, no teams
+  readonly solo?: boolean;
+
+  SlimeClass: new (isPlayer1: boolean, clock: SimClock, rules: RuleSet, slot?: TeamSlot) => SlimeBase;
+  BallClass: new (game: GameInterface, clock: SimClock, rules: RuleSet) => BallBase;
+
+  // Arena drawing (goals, net, ...) on top of the sky and ground, behind the entities
+  drawArena(ctx: CanvasRenderingContext2D, groundY: number, rules: RuleSet): void;
+  // Optional in-play overlay on top of the entities (e.g. warning meters)
+  drawOverlay?(ctx: CanvasRenderingContext2D, match: Match, alpha: number): void;
+
+  // Serve/reset rules: slime the ball is served from after a reset (null = kickoff from center)
+  servingSlime(match: Match): SlimeBase | null;
+  // Serve/reset rules: player serving after `scoringPlayer` wins a point
+  nextServer(match: Match, scoringPlayer: 1 | 2): 1 | 2;
+
+  // Scoring rules: match winner after a point is scored (null = keep playing)
+  checkWinner(match: Match): 1 | 2 | null;
+
+  // Optional mode bookkeeping: initial match.modeState, and an update run on every point
+  // (after the score increments, before checkWinner/nextServer)
+  createModeState?(): ModeState;
+  onPoint?(match: Match, scoringPlayer: 1 | 2): void;
+
+  // Optional: take over a point entirely (no score change, no serve/winner handling) by
+  // returning true, e.g. penalty shootout kicks. The mode then resets or ends the match itself.
+  handlePoint?(match: Match, scoringPlayer: 1 | 2): boolean;
+  // Optional: run after every physics step (match clocks, time limits)
+  onStep?(match: Match): void;
+  // Optional: reposition slimes/ball after the default round reset (e.g. penalty kicks)
+  onRoundReset?(match: Match): void;
+
+  // Optional HUD score text (defaults to the plain point score)
+  scoreDisplay?(match: Match): ScoreDisplay;
+  // Optional game-over headline (defaults to "Player N Wins!")
+  resultText?(match: Match): string;
+
+  // AI for a bot-controlled slime on either side. With the match, the AI may also read the
+  // mode's situation (e.g. its role in a penalty shootout). AIs that support difficulty levels
+  // take the menu's choice (default: Normal) and a seed for their randomness (default: 1).
+  createAI(rules: RuleSet, match?: Match, difficulty?: AIDifficulty, seed?: number): AIBase;
+}
+
+// Classic scoring: first to rules.winningScore wins.
+export function firstToWinningScore(match: Match): 1 | 2 | null {
+  if (match.score1 >= match.rules.winningScore) return 1;
+  if (match.score2 >= match.rules.winningScore) return 2;
+  return null;
+}
+
+// Default game-over headline
+export function winnerText(match: Match): string {
+  return match.winner === 1 ? 'Player 1 Wins!' : 'Player 2 Wins!';
+}
+
+// Plain point score for the HUD
+export function pointScoreDisplay(match: Match): ScoreDisplay {
+  return { p1: `P1: ${match.score1}`, p2: `P2: ${match.score2}` };
+}
+
+// --- MODE REGISTRY ---
+const registry = new Map<GameMode, GameModeDefinition>();
+
+export function registerGameMode(definition: GameModeDefinition): void {
+  registry.set(definition.id, definition);
+}
+
+export function hasGameMode(id: string): boolean {
+  return registry.has(id);
+}
+
+export function getGameMode(id: GameMode): GameModeDefinition {
+  const definition = registry.get(id);
+  if (!definition) {
+    throw new Error(`Unknown game mode: ${id}`);
+  }
+  return definition;
+}
+
+// Registered modes in registration order (menu order)
+export function getGameModes(): GameModeDefinition[] {
+  return [...registry.values()];
+}
@@ -26,6 +26,7 @@ export class GamepadInput {
         this.inputHandler.set('gamepad', 'KeyA', false);
         this.inputHandler.set('gamepad', 'KeyD', false);
         this.inputHandler.set('gamepad', 'KeyW', false);
+        this.inputHandler.set('gamepad', 'KeyS', false);
       }
     });
   }
@@ -71,11 +72,18 @@ export class GamepadInput {
     const btn2 = gp.buttons[2]?.pressed || false; // X / Square
     const btn3 = gp.buttons[3]?.pressed || false; // Y / Triangle
     const dpadUp = gp.buttons[12]?.pressed || false;
+    const dpadDown = gp.buttons[13]?.pressed || false;
+    const shoulderL = gp.buttons[4]?.pressed || false; // LB / L1
+    const shoulderR = gp.buttons[5]?.pressed || false; // RB / R1
     
     // Some controllers trigger jump on triggers/shoulders? Let's stick to face buttons
     const isJump = btn0 || btn1 || btn2 || btn3 || dpadUp;
 
     this.inputHandler.set('gamepad', 'KeyW', isJump);
+
+    // --- Grab/Throw ---
+    // D-Pad Down (13) and the shoulder buttons (4/5) map to KeyS
+    this.inputHandler.set('gamepad', 'KeyS', dpadDown || shoulderL || shoulderR);
   }
 }
 
@@ -0,0 +1,186 @@
+import type { SlimeBase, InputSource } from './SlimeBase.js';
+import type { BallBase, GameInterface } from './BallBase.js';
+import { SimClock } from './SimClock.js';
+import { CLASSIC_RULES, type RuleSet } from './rules.js';
+import { EventBus, type GameEventBus } from './events.js';
+import { getGameMode, type GameMode, type GameModeDefinition, type ModeState } from './GameMode.js';
+import { WORLD_STATE_VERSION, capturePhysicsState, restorePhysicsState, type WorldState } from './WorldState.js';
+
+// Input for slimes nobody drives
+const IDLE_INPUT: InputSource = { isDown: () => false };
+
+export interface MatchInputs {
+  p1: InputSource;
+  p2: InputSource;
+  // Team play: one input per match.teammates entry, same order (missing = standing still)
+  teammates?: readonly InputSource[];
+}
+
+export interface MatchOptions {
+  rules?: RuleSet;
+  // Slimes per side (default 1)
+  teamSize?: number;
+  // Bus to publish gameplay events on (e.g. the Game's long-lived bus); defaults to a private one
+  events?: GameEventBus;
+}
+
+// --- MATCH (Headless Simulation Core) ---
+// Owns the players, ball, clock, rules, score and serve rotation for a single match.
+// Each side is a team of teamSize slimes; p1/p2 are the first slime of each team (the whole
+// team in 1v1). They serve, and 1v1 code (AIs, replays) talks to them.
+// Sport-specific behavior (entities, serving, scoring) comes from the mode's GameModeDefinition.
+// No DOM/canvas access: it runs identically in the browser shell and under plain Node.
+export class Match implements GameInterface {
+  readonly mode: GameMode;
+  readonly definition: GameModeDefinition;
+  readonly clock: SimClock;
+  readonly teamSize: number;
+  readonly team1: readonly SlimeBase[];
+  readonly team2: readonly SlimeBase[];
+  readonly p1: SlimeBase;
+  readonly p2: SlimeBase;
+  // Every slime but p1 and p2: team 1's then team 2's
+  readonly teammates: readonly SlimeBase[];
+  // All slimes in update/collision order: p1, p2, then the teammates
+  readonly slimes: readonly SlimeBase[];
+  readonly ball: BallBase;
+  readonly rules: RuleSet;
+  readonly events: GameEventBus;
+
+  score1: number = 0;
+  score2: number = 0;
+  server: number = 1;
+  winner: 1 | 2 | null = null;
+  // Mode-specific bookkeeping (see GameModeDefinition.createModeState)
+  modeState: ModeState;
+
+  constructor(mode: GameMode, options: MatchOptions = {}) {
+    this.mode = mode;
+    this.definition = getGameMode(mode);
+    this.rules = options.rules ?? CLASSIC_RULES;
+    this.events = options.events ?? new EventBus();
+    this.teamSize = options.teamSize ?? 1;
+    if (!Number.isInteger(this.teamSize) || this.teamSize < 1) {
+      throw new Error(`Invalid team size: ${this.teamSize}`);
+    }
+
+    // Fresh clock per match: all entity/AI timers are relative to tick 0
+    this.clock = new SimClock();
+    this.team1 = this.createTeam(true);
+    this.team2 = this.createTeam(false);
+    this.p1 = this.team1[0];
+    this.p2 = this.team2[0];
+    this.teammates = [...this.team1.slice(1), ...this.team2.slice(1)];
+    this.slimes = [this.p1, this.p2, ...this.teammates];
+    this.ball = new this.definition.BallClass(this, this.clock, this.rules);
+    this.modeState = this.definition.createModeState?.() ?? {};
+
+    this.resetRound();
+  }
+
+  private createTeam(isPlayer1: boolean): SlimeBase[] {
+    const team: SlimeBase[] = [];
+    for (let index = 0; index < this.teamSize; index++) {
+      team.push(new this.definition.SlimeClass(isPlayer1, this.clock, this.rules, { index, size: this.teamSize }));
+    }
+    return team;
+  }
+
+  // The opposing slime closest to the ball: the one an AI plans against in team play
+  opponentOf(slime: SlimeBase): SlimeBase {
+    const opponents = slime.isPlayer1 ? this.team2 : this.team1;
+    let nearest = opponents[0];
+    for (const opponent of opponents) {
+      if (Math.abs(opponent.x - this.ball.x) < Math.abs(nearest.x - this.ball.x)) nearest = opponent;
+    }
+    return nearest;
+  }
+
+  isOver(): boolean {
+    return this.winner !== null;
+  }
+
+  // Advance the match by one fixed physics step.
+  step(inputs: MatchInputs): void {
+    if (this.isOver()) return;
+
+    this.p1.update(inputs.p1);
+    this.p2.update(inputs.p2);
+    this.teammates.forEach((slime, i) => slime.update(inputs.teammates?.[i] ?? IDLE_INPUT));
+    this.ball.update(this.slimes);
+    this.clock.advance();
+    this.definition.onStep?.(this);
+  }
+
+  scorePoint(scoringPlayer: number): void {
+    if (this.isOver()) return;
+    if (this.definition.handlePoint?.(this, scoringPlayer as 1 | 2)) return;
+    if (scoringPlayer === 1) this.score1++; else this.score2++;
+    this.events.emit('pointScored', { scoringPlayer: scoringPlayer as 1 | 2, score1: this.score1, score2: this.score2 });
+    this.definition.onPoint?.(this, scoringPlayer as 1 | 2);
+
+    const winner = this.definition.checkWinner(this);
+    if (winner !== null) {
+      this.endMatch(winner);
+    } else {
+      this.server = this.definition.nextServer(this, scoringPlayer as 1 | 2);
+      this.resetRound();
+    }
+  }
+
+  // End the match now (after a winning point, or when a mode's clock decides it)
+  endMatch(winner: 1 | 2): void {
+    if (this.isOver()) return;
+    this.winner = winner;
+    this.events.emit('matchEnd', { winner, score1: this.score1, score2: this.score2 });
+  }
+
+  getTotalScore(): number {
+    return this.score1 + this.score2;
+  }
+
+  captureState(): WorldState {
+    return {
+      version: WORLD_STATE_VERSION,
+      mode: this.mode,
+      ...capturePhysicsState(this.p1, this.p2, this.ball),
+      teamSize: this.teamSize,
+      teammates: this.teammates.map((slime) => slime.getState()),
+      score1: this.score1,
+      score2: this.score2,
+      server: this.server,
+      winner: this.winner,
+      modeState: { ...this.modeState },
+    };
+  }
+
+  restoreState(state: Readonly<WorldState>): void {
+    if (state.version !== WORLD_STATE_VERSION) {
+      throw new Error(`Unsupported world state version: ${state.version}`);
+    }
+    if (state.mode !== this.mode) {
+      throw new Error(`Cannot restore ${state.mode} state into a ${this.mode} match`);
+    }
+    if ((state.teamSize ?? 1) !== this.teamSize) {
+      throw new Error(`Cannot restore a ${state.teamSize ?? 1}-per-side state into a ${this.teamSize}-per-side match`);
+    }
+    const teammateStates = state.teammates ?? [];
+    if (teammateStates.length !== this.teammates.length) {
+      throw new Error('Malformed world state: teammate states do not match the team size');
+    }
+    restorePhysicsState(state, this.p1, this.p2, this.ball);
+    this.teammates.forEach((slime, i) => slime.setState(teammateStates[i]));
+    this.score1 = state.score1;
+    this.score2 = state.score2;
+    this.server = state.server;
+    this.winner = state.winner;
+    this.modeState = { ...(state.modeState ?? this.definition.createModeState?.() ?? {}) };
+  }
+
+  resetRound(): void {
+    this.slimes.forEach((slime) => slime.reset());
+    this.ball.reset(this.definition.servingSlime(this));
+    this.definition.onRoundReset?.(this);
+    this.events.emit('roundReset', { server: this.server });
+  }
+}
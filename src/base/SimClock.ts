@@ -0,0 +1,24 @@
+
+// --- SIMULATION CLOCK (Per-Match Fixed-Step Time) ---
+// All gameplay timers (serve freeze, grab windows, AI timing) are expressed in ticks
+// of this clock instead of wall-clock milliseconds, so the same inputs always
+// produce the same match regardless of frame timing or machine speed.
+export class SimClock {
+  static readonly TICKS_PER_SECOND = 60;
+
+  tick: number;
+
+  constructor(tick: number = 0) {
+    this.tick = tick;
+  }
+
+  // Called exactly once per fixed physics step, after all entities have updated.
+  advance(): void {
+    this.tick++;
+  }
+
+  // Convert a duration in milliseconds to whole ticks (rounded to nearest).
+  static msToTicks(ms: number): number {
+    return Math.round((ms * SimClock.TICKS_PER_SECOND) / 1000);
+  }
+}
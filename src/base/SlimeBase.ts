@@ -1,75 +1,175 @@
 import { CONFIG } from './config.js';
 import { BallBase } from './BallBase.js';
+import { SimClock } from './SimClock.js';
+import type { RuleSet } from './rules.js';
+import type { SlimeState } from './WorldState.js';
+import { defaultBindings, type KeyBindings } from './bindings.js';
 
 export interface InputSource {
   isDown(code: string): boolean;
 }
 
+// Position of a slime within its team (team play); 1v1 slimes are { index: 0, size: 1 }
+export interface TeamSlot {
+  index: number;
+  size: number;
+}
+
+export const SOLO_SLOT: TeamSlot = { index: 0, size: 1 };
+
+// Kickoff x for a team slot, as a fraction of the arena width: spread over the team's half,
+// index 0 nearest its own end. A lone slime keeps the classic 20% / 80% spot.
+export function teamStartX(isPlayer1: boolean, slot: TeamSlot): number {
+  const fraction = slot.size <= 1 ? 0.20 : 0.10 + (0.36 - 0.10) * slot.index / (slot.size - 1);
+  return CONFIG.internalWidth * (isPlayer1 ? fraction : 1 - fraction);
+}
+
 // --- SLIME BASE CLASS (Universal Movement) ---
 export abstract class SlimeBase {
-  isPlayer1: boolean;
+  isPlayer1: boolean; // Left team (team 1)
+  slot: TeamSlot;
+  bindings: KeyBindings; // Keys this slime reads from its InputSource
   color: string;
   startPos: { x: number; y: number };
   x: number;
   y: number;
+  prevX: number; // Position at the start of the current step (swept collisions, render interpolation)
+  prevY: number;
   vx: number;
   vy: number;
-  grabStateActiveUntil: number = 0; // Timestamp when grab state expires (0 = inactive)
-
-  constructor(isPlayer1: boolean, color: string) {
+  clock: SimClock;
+  rules: RuleSet;
+  grabStateActiveUntil: number = 0; // Tick when grab state expires (0 = inactive)
+  facing: 1 | -1; // Direction of the last horizontal move (throws go this way)
+  holdingUntil: number = 0; // Tick when a held ball is thrown automatically (0 = not holding)
+  grabKeyWasDown: boolean = false; // Grab/throw acts on the press, not while held down
+  throwRequested: boolean = false; // Set by update(), consumed by the ball in the same step
+
+  constructor(isPlayer1: boolean, color: string, clock: SimClock, rules: RuleSet, slot: TeamSlot = SOLO_SLOT) {
     this.isPlayer1 = isPlayer1;
+    this.slot = slot;
+    this.bindings = defaultBindings(isPlayer1);
     this.color = color; 
+    this.clock = clock;
+    this.rules = rules;
     this.startPos = {
-      x: isPlayer1 ? CONFIG.internalWidth * 0.20 : CONFIG.internalWidth * 0.80,
+      x: teamStartX(isPlayer1, slot),
       y: CONFIG.internalHeight - CONFIG.groundHeight
     };
     this.x = this.startPos.x;
     this.y = this.startPos.y;
+    this.prevX = this.x;
+    this.prevY = this.y;
     this.vx = 0;
     this.vy = 0;
+    this.facing = isPlayer1 ? 1 : -1;
   }
 
   reset(): void {
     this.x = this.startPos.x; 
     this.y = this.startPos.y;
+    this.prevX = this.x;
+    this.prevY = this.y;
     this.vx = 0;
     this.vy = 0;
     this.grabStateActiveUntil = 0;
+    this.facing = this.isPlayer1 ? 1 : -1;
+    this.holdingUntil = 0;
+    this.grabKeyWasDown = false;
+    this.throwRequested = false;
+  }
+
+  // Reset, but stand at `x` instead of the kickoff spot (set pieces such as penalty kicks)
+  placeAt(x: number): void {
+    this.reset();
+    this.x = x;
+    this.prevX = x;
+  }
+
+  getState(): SlimeState {
+    return {
+      x: this.x, y: this.y, vx: this.vx, vy: this.vy,
+      grabStateActiveUntil: this.grabStateActiveUntil,
+      facing: this.facing,
+      holdingUntil: this.holdingUntil,
+      grabKeyWasDown: this.grabKeyWasDown,
+    };
+  }
+
+  setState(state: Readonly<SlimeState>): void {
+    this.x = state.x;
+    this.y = state.y;
+    this.prevX = state.x;
+    this.prevY = state.y;
+    this.vx = state.vx;
+    this.vy = state.vy;
+    this.grabStateActiveUntil = state.grabStateActiveUntil;
+    this.facing = state.facing;
+    this.holdingUntil = state.holdingUntil;
+    this.grabKeyWasDown = state.grabKeyWasDown;
+    this.throwRequested = false;
   }
 
   // Check if grab state is currently active
   isGrabStateActive(): boolean {
-    return Date.now() < this.grabStateActiveUntil;
+    return this.clock.tick < this.grabStateActiveUntil;
   }
 
-  // Activate grab state for a duration (in milliseconds)
-  activateGrabState(duration: number = 400): void {
-    this.grabStateActiveUntil = Date.now() + duration;
+  // Activate grab state for a duration (in ticks; 24 = 400ms @ 60Hz)
+  activateGrabState(durationTicks: number = 24): void {
+    this.grabStateActiveUntil = this.clock.tick + durationTicks;
   }
   
+  isHoldingBall(): boolean {
+    return this.holdingUntil > 0;
+  }
+
+  // Called by the ball when it lands in an open catch window
+  startHolding(): void {
+    this.holdingUntil = this.clock.tick + this.rules.grabHoldTicks;
+    this.grabStateActiveUntil = 0;
+  }
+
+  // Called by the ball when it is thrown (on request or at the hold limit)
+  releaseBall(): void {
+    this.holdingUntil = 0;
+    this.throwRequested = false;
+  }
+
   // Abstract method to be overridden by child classes
   abstract applyBoundaries(): void;
 
+  // Position blended between the previous and current step (alpha in [0, 1]) for smooth rendering
+  interpolatedPosition(alpha: number): { x: number; y: number } {
+    return {
+      x: this.prevX + (this.x - this.prevX) * alpha,
+      y: this.prevY + (this.y - this.prevY) * alpha,
+    };
+  }
+
   update(input: InputSource): void {
-    let moveLeft: boolean, moveRight: boolean, jump: boolean;
-    if (this.isPlayer1) {
-      moveLeft = input.isDown('KeyA');
-      moveRight = input.isDown('KeyD');
-      jump = input.isDown('KeyW');
-    } else {
-      moveLeft = input.isDown('ArrowLeft');
-      moveRight = input.isDown('ArrowRight');
-      jump = input.isDown('ArrowUp');
-    }
+    const moveLeft = input.isDown(this.bindings.left);
+    const moveRight = input.isDown(this.bindings.right);
+    const jump = input.isDown(this.bindings.jump);
+    const grab = input.isDown(this.bindings.grab);
+
+    // Grab/throw: a press throws a held ball, otherwise it opens the catch window
+    const grabPressed = grab && !this.grabKeyWasDown;
+    this.grabKeyWasDown = grab;
+    this.throwRequested = grabPressed && this.isHoldingBall();
+    if (grabPressed && !this.isHoldingBall()) this.activateGrabState(this.rules.grabWindowTicks);
 
     this.vx = 0;
-    if (moveLeft) this.vx = -CONFIG.slimeSpeed; 
-    if (moveRight) this.vx = CONFIG.slimeSpeed; 
+    if (moveLeft) this.vx = -this.rules.slimeSpeed; 
+    if (moveRight) this.vx = this.rules.slimeSpeed; 
+    if (this.vx !== 0) this.facing = this.vx > 0 ? 1 : -1;
     if (jump && this.y >= CONFIG.internalHeight - CONFIG.groundHeight) {
-      this.vy = -CONFIG.slimeJumpForce; 
+      this.vy = -this.rules.slimeJumpForce; 
     }
 
-    this.vy += CONFIG.gravity;
+    this.prevX = this.x;
+    this.prevY = this.y;
+    this.vy += this.rules.gravity;
     this.x += this.vx;
     this.y += this.vy;
 
@@ -82,10 +182,11 @@ export abstract class SlimeBase {
     this.applyBoundaries();
   }
 
-  draw(ctx: CanvasRenderingContext2D, ball: BallBase | null, showGrabState: boolean = false): void {
+  draw(ctx: CanvasRenderingContext2D, ball: BallBase | null, showGrabState: boolean = false, alpha: number = 1): void {
+    const pos = this.interpolatedPosition(alpha);
     ctx.save();
-    ctx.translate(this.x, this.y);
-    const currentRadius = CONFIG.slimeRadius; 
+    ctx.translate(pos.x, pos.y);
+    const currentRadius = this.rules.slimeRadius; 
 
     // Body (Semi-Circle)
     ctx.beginPath();
@@ -108,10 +209,9 @@ export abstract class SlimeBase {
     const eyeX = dirX * (currentRadius * 0.3); 
     const eyeY = -(currentRadius * 0.56);
     
-    const bx = ball ? ball.x : 0;
-    const by = ball ? ball.y : 0;
-    const dx = bx - (this.x + eyeX);
-    const dy = by - (this.y + eyeY);
+    const ballPos = ball ? ball.interpolatedPosition(alpha) : { x: 0, y: 0 };
+    const dx = ballPos.x - (pos.x + eyeX);
+    const dy = ballPos.y - (pos.y + eyeY);
     const angle = Math.atan2(dy, dx);
     
     const pupilDist = 4;
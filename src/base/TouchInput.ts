@@ -133,13 +133,16 @@ export class TouchInput {
     dPad.appendChild(leftBtn);
     dPad.appendChild(rightBtn);
 
-    // Action Container (Jump)
+    // Action Container (Grab + Jump)
     const actionPad = document.createElement('div');
     actionPad.className = 'action-pad';
 
+    // Grab/Throw Button
+    const grabBtn = this.createButton('Grab', 'KeyS');
     // Jump Button
     const jumpBtn = this.createButton('Jump', 'KeyW'); 
 
+    actionPad.appendChild(grabBtn);
     actionPad.appendChild(jumpBtn);
 
     this.container.appendChild(dPad);
@@ -0,0 +1,85 @@
+import type { SlimeBase } from './SlimeBase.js';
+import type { BallBase } from './BallBase.js';
+import type { GameMode, ModeState } from './GameMode.js';
+
+export const WORLD_STATE_VERSION = 2;
+
+export interface SlimeState {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  grabStateActiveUntil: number;
+  facing: 1 | -1;
+  holdingUntil: number;
+  grabKeyWasDown: boolean;
+}
+
+export interface BallState {
+  x: number;
+  y: number;
+  prevX: number;
+  prevY: number;
+  vx: number;
+  vy: number;
+  frozenUntil: number;
+  // Sport-specific rally bookkeeping (e.g. tennis bounce counts)
+  modeState?: ModeState;
+}
+
+// Everything the physics step reads: the clock tick plus both slimes and the ball.
+// Shared by all modes (rollouts restore this into fresh entities).
+export interface PhysicsState {
+  tick: number;
+  p1: SlimeState;
+  p2: SlimeState;
+  ball: BallState;
+}
+
+// Full match state: physics plus score, serve rotation and result.
+// Restoring it into a Match of the same mode brings the match back to exactly that point.
+export interface WorldState extends PhysicsState {
+  version: number;
+  mode: GameMode;
+  score1: number;
+  score2: number;
+  server: number;
+  winner: 1 | 2 | null;
+  // The mode's extra bookkeeping (absent for modes without any)
+  modeState?: ModeState;
+  // Team play: slimes per side (absent = 1) and the states of match.teammates, in order
+  teamSize?: number;
+  teammates?: SlimeState[];
+}
+
+export function capturePhysicsState(p1: SlimeBase, p2: SlimeBase, ball: BallBase): PhysicsState {
+  return {
+    tick: ball.clock.tick,
+    p1: p1.getState(),
+    p2: p2.getState(),
+    ball: ball.getState(),
+  };
+}
+
+// Assumes all three entities share one clock (as they do within a Match or rollout).
+export function restorePhysicsState(state: Readonly<PhysicsState>, p1: SlimeBase, p2: SlimeBase, ball: BallBase): void {
+  ball.clock.tick = state.tick;
+  p1.setState(state.p1);
+  p2.setState(state.p2);
+  ball.setState(state.ball);
+}
+
+export function serializeWorldState(state: WorldState): string {
+  return JSON.stringify(state);
+}
+
+export function parseWorldState(text: string): WorldState {
+  const data = JSON.parse(text) as Partial<WorldState>;
+  if (data.version !== WORLD_STATE_VERSION) {
+    throw new Error(`Unsupported world state version: ${data.version}`);
+  }
+  if (!data.mode || typeof data.tick !== 'number' || !data.p1 || !data.p2 || !data.ball) {
+    throw new Error('Malformed world state');
+  }
+  return data as WorldState;
+}
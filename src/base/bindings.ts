@@ -0,0 +1,23 @@
+// --- KEY BINDINGS (Per-Slime Controls) ---
+// Each slime reads its own four keys from whatever InputSource drives it, so several local
+// humans can share one keyboard and AIs simply press their slime's keys on a VirtualInput.
+export interface KeyBindings {
+  readonly left: string;
+  readonly right: string;
+  readonly jump: string;
+  readonly grab: string;
+}
+
+// Keyboard layouts handed out to local humans in order (P1, P2, P3, P4).
+// Touch controls and gamepads drive the first layout.
+export const PLAYER_BINDINGS: readonly KeyBindings[] = [
+  { left: 'KeyA', right: 'KeyD', jump: 'KeyW', grab: 'KeyS' },
+  { left: 'ArrowLeft', right: 'ArrowRight', jump: 'ArrowUp', grab: 'ArrowDown' },
+  { left: 'KeyJ', right: 'KeyL', jump: 'KeyI', grab: 'KeyK' },
+  { left: 'Numpad4', right: 'Numpad6', jump: 'Numpad8', grab: 'Numpad5' },
+];
+
+// Bindings a slime starts with: the classic P1 keys on the left team, P2 keys on the right.
+export function defaultBindings(isPlayer1: boolean): KeyBindings {
+  return PLAYER_BINDINGS[isPlayer1 ? 0 : 1];
+}
@@ -0,0 +1,115 @@
+
+// --- SWEPT (CONTINUOUS) COLLISION HELPERS ---
+// All functions take a circle moving from (x0, y0) by (dx, dy) over one physics step and return
+// the time of impact t in [0, 1] (fraction of the step), or null if there is no contact this step.
+// t = 0 means the shapes already overlap at the start of the step.
+
+export interface SweepHit {
+  t: number;
+  // Circle center at the moment of contact (already pushed out when starting in overlap)
+  x: number;
+  y: number;
+  // Contact normal pointing from the obstacle toward the moving circle
+  nx: number;
+  ny: number;
+}
+
+// Moving circle vs moving circle (relative motion; both move linearly during the step).
+export function sweepCircleCircle(
+  x0: number, y0: number, dx: number, dy: number, r: number,
+  cx0: number, cy0: number, cdx: number, cdy: number, cr: number
+): number | null {
+  const px = x0 - cx0;
+  const py = y0 - cy0;
+  const vx = dx - cdx;
+  const vy = dy - cdy;
+  const rr = r + cr;
+
+  const c = px * px + py * py - rr * rr;
+  if (c <= 0) return 0; // already touching/overlapping
+
+  const a = vx * vx + vy * vy;
+  if (a < 1e-9) return null; // no relative motion
+
+  const b = 2 * (px * vx + py * vy);
+  if (b >= 0) return null; // moving apart
+
+  const disc = b * b - 4 * a * c;
+  if (disc < 0) return null;
+
+  const t = (-b - Math.sqrt(disc)) / (2 * a);
+  return t >= 0 && t <= 1 ? t : null;
+}
+
+// Moving circle vs static axis-aligned rectangle (Minkowski sum: rectangle grown by r with rounded corners).
+export function sweepCircleRect(
+  x0: number, y0: number, dx: number, dy: number, r: number,
+  left: number, top: number, right: number, bottom: number
+): SweepHit | null {
+  // Start inside the grown rectangle: push out along the axis of least penetration.
+  if (x0 > left - r && x0 < right + r && y0 > top - r && y0 < bottom + r) {
+    const closestX = Math.max(left, Math.min(right, x0));
+    const closestY = Math.max(top, Math.min(bottom, y0));
+    const inCorner = closestX !== x0 && closestY !== y0;
+    if (!inCorner || Math.hypot(x0 - closestX, y0 - closestY) < r) {
+      const penLeft = x0 - (left - r);
+      const penRight = (right + r) - x0;
+      const penTop = y0 - (top - r);
+      const penBottom = (bottom + r) - y0;
+      const minPen = Math.min(penLeft, penRight, penTop, penBottom);
+      if (minPen === penLeft) return { t: 0, x: left - r, y: y0, nx: -1, ny: 0 };
+      if (minPen === penRight) return { t: 0, x: right + r, y: y0, nx: 1, ny: 0 };
+      if (minPen === penTop) return { t: 0, x: x0, y: top - r, nx: 0, ny: -1 };
+      return { t: 0, x: x0, y: bottom + r, nx: 0, ny: 1 };
+    }
+  }
+
+  // Slab test against the grown rectangle
+  let tEnter = 0;
+  let tExit = 1;
+  let nx = 0;
+  let ny = 0;
+
+  const slabs: Array<[number, number, number, number, number]> = [
+    [x0, dx, left - r, right + r, 0],
+    [y0, dy, top - r, bottom + r, 1],
+  ];
+  for (const [p, d, min, max, axis] of slabs) {
+    if (Math.abs(d) < 1e-9) {
+      if (p < min || p > max) return null;
+      continue;
+    }
+    let t1 = (min - p) / d;
+    let t2 = (max - p) / d;
+    let sign = -1;
+    if (t1 > t2) { [t1, t2] = [t2, t1]; sign = 1; }
+    if (t1 > tEnter) {
+      tEnter = t1;
+      nx = axis === 0 ? sign : 0;
+      ny = axis === 1 ? sign : 0;
+    }
+    tExit = Math.min(tExit, t2);
+    if (tEnter > tExit) return null;
+  }
+
+  // If the entry point lies in a rounded corner region, refine against the corner circle.
+  const hx = x0 + dx * tEnter;
+  const hy = y0 + dy * tEnter;
+  const cornerX = hx < left ? left : (hx > right ? right : null);
+  const cornerY = hy < top ? top : (hy > bottom ? bottom : null);
+  if (cornerX !== null && cornerY !== null) {
+    const t = sweepCircleCircle(x0, y0, dx, dy, r, cornerX, cornerY, 0, 0, 0);
+    if (t === null) return null;
+    const x = x0 + dx * t;
+    const y = y0 + dy * t;
+    const len = Math.hypot(x - cornerX, y - cornerY) || 1;
+    const cnx = (x - cornerX) / len;
+    const cny = (y - cornerY) / len;
+    // Just touching the corner at the start while already moving away: no contact
+    if (t === 0 && dx * cnx + dy * cny >= 0) return null;
+    return { t, x, y, nx: cnx, ny: cny };
+  }
+  if (nx === 0 && ny === 0) return null;
+
+  return { t: tEnter, x: hx, y: hy, nx, ny };
+}
@@ -1,4 +1,6 @@
 // --- GLOBAL CONFIGURATION (Shared Defaults) ---
+// Arena dimensions are fixed; gameplay values seed CLASSIC_RULES (see rules.ts) and are
+// read per match through a RuleSet.
 export const CONFIG = {
   internalWidth: 1000,
   internalHeight: 600,
@@ -12,10 +14,33 @@ export const CONFIG = {
   slimeRadius: 50,        
   ballRadius: 13,
   popForce: 12, // Standard force
+  ballResetFreezeTicks: 12, // 200ms @ 60Hz before a reset ball starts moving
+  grabWindowTicks: 12, // 200ms catch window after pressing grab
+  grabHoldTicks: 90, // a caught ball is thrown automatically after 1.5s
+  throwSpeed: 13,
   VOLLEYBALL_NET_W: 20,
   VOLLEYBALL_NET_H: 80,
+  VOLLEYBALL_MAX_TOUCHES: 0, // touches per side before the ball must cross (0 = unlimited, classic)
+  VOLLEYBALL_WIN_BY: 1, // lead needed to take a set at winningScore (2 = deuce rules)
+  VOLLEYBALL_POINT_CAP: 0, // a set ends at this score whatever the lead (0 = no cap)
+  VOLLEYBALL_SETS_TO_WIN: 1, // 2 = best of three, 3 = best of five
+  VOLLEYBALL_SWITCH_SIDES: false, // players switch ends after each set
+  VOLLEYBALL_SCORING: 'rally', // 'rally': every rally scores; 'sideOut': only the serving side scores
   SOCCER_GOAL_H: 130,
-  SOCCER_CROSSBAR_R: 8
+  SOCCER_CROSSBAR_R: 8,
+  SOCCER_HALF_TICKS: 0, // length of each half (0 = untimed, first to winningScore)
+  SOCCER_OVERTIME_TICKS: 3600, // golden-goal period after a drawn timed match (0 = straight to penalties)
+  SOCCER_SHOOTOUT_KICKS: 5, // penalty kicks per side before sudden death
+  SOCCER_KICK_TICKS: 300, // a penalty not scored within 5s counts as a miss
+  SOCCER_CAMP_TICKS: 0, // ticks a slime may stay in its own goal area before conceding (0 = no limit, classic)
+  SOCCER_GOAL_AREA_W: 90, // goal area depth from the goal line, for the camping rule
+  BASKETBALL_HOOP_H: 230, // rim height above the ground
+  BASKETBALL_RIM_W: 64, // distance between the front and back rim colliders
+  BASKETBALL_RIM_R: 4,
+  TENNIS_NET_W: 8,
+  TENNIS_NET_H: 40, // low net: half the volleyball net
+  TENNIS_GAMES_PER_SET: 4, // short sets (win by two, capped one game later)
+  TENNIS_SETS_TO_WIN: 2 // best of three sets
 } as const;
 
 
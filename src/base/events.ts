@@ -0,0 +1,62 @@
+import type { SlimeBase } from './SlimeBase.js';
+
+// --- GAMEPLAY EVENTS ---
+// Published by the ball classes (contacts) and Match (scoring flow). Sound, stats, replays and
+// achievements subscribe here instead of patching physics code.
+export interface GameEvents {
+  hit: { slime: SlimeBase; isStomp: boolean; onTop: boolean };
+  catch: { slime: SlimeBase };
+  throw: { slime: SlimeBase; forced: boolean };
+  wallBounce: { side: 'left' | 'right' | 'top' };
+  groundBounce: { x: number };
+  crossbarHit: { side: 'left' | 'right' };
+  netHit: { part: 'cap' | 'post' };
+  rimHit: { side: 'left' | 'right' };
+  backboardHit: { side: 'left' | 'right' };
+  // Rule break ending the rally; `side` is the team at fault
+  fault: { side: 1 | 2; reason: 'tooManyTouches' | 'doubleTouch' | 'goalCamping' };
+  // Timed soccer: a new period starts, and each shootout kick's result (running penalty score)
+  periodStart: { period: 'secondHalf' | 'overtime' | 'shootout' };
+  penaltyKick: { shooter: 1 | 2; scored: boolean; pens1: number; pens2: number };
+  // Volleyball: a receiving side won the rally and the serve (side-out scoring), and players
+  // switching ends between sets (side numbers now belong to the other players)
+  sideOut: { server: 1 | 2 };
+  sidesSwitched: { swapped: boolean };
+  // Training drills: a launched shot was judged (running tally)
+  drillShot: { shot: number; success: boolean; successes: number; failures: number };
+  pointScored: { scoringPlayer: 1 | 2; score1: number; score2: number };
+  roundReset: { server: number };
+  matchEnd: { winner: 1 | 2; score1: number; score2: number };
+}
+
+export type GameEventName = keyof GameEvents;
+
+type Handler<T> = (payload: T) => void;
+
+// Minimal typed pub/sub. Handlers run synchronously, in subscription order, inside the physics step.
+export class EventBus<TEvents> {
+  private readonly handlers = new Map<keyof TEvents, Set<Handler<never>>>();
+
+  // Returns an unsubscribe function
+  on<K extends keyof TEvents>(name: K, handler: Handler<TEvents[K]>): () => void {
+    let set = this.handlers.get(name);
+    if (!set) {
+      set = new Set();
+      this.handlers.set(name, set);
+    }
+    set.add(handler as Handler<never>);
+    return () => this.off(name, handler);
+  }
+
+  off<K extends keyof TEvents>(name: K, handler: Handler<TEvents[K]>): void {
+    this.handlers.get(name)?.delete(handler as Handler<never>);
+  }
+
+  emit<K extends keyof TEvents>(name: K, payload: TEvents[K]): void {
+    const set = this.handlers.get(name);
+    if (!set) return;
+    for (const handler of set) (handler as Handler<TEvents[K]>)(payload);
+  }
+}
+
+export type GameEventBus = EventBus<GameEvents>;
@@ -1,8 +1,21 @@
 export { CONFIG } from './config.js';
+export { SimClock } from './SimClock.js';
+export { CLASSIC_RULES, RULE_PRESETS, CAMP_LIMIT_CHOICES, createRuleSet, getRulePreset, withCampLimit } from './rules.js';
+export type { RuleSet, VolleyballScoring } from './rules.js';
 export { InputHandler } from './InputHandler.js';
-export { BallBase } from './BallBase.js';
+export { BallBase, TOUCH_MERGE_TICKS } from './BallBase.js';
 export type { GameInterface } from './BallBase.js';
-export { SlimeBase } from './SlimeBase.js';
-export type { InputSource } from './SlimeBase.js';
+export { SlimeBase, SOLO_SLOT, teamStartX } from './SlimeBase.js';
+export type { InputSource, TeamSlot } from './SlimeBase.js';
+export { PLAYER_BINDINGS, defaultBindings } from './bindings.js';
+export type { KeyBindings } from './bindings.js';
+export { registerGameMode, hasGameMode, getGameMode, getGameModes, firstToWinningScore, pointScoreDisplay, winnerText } from './GameMode.js';
+export type { GameMode, GameModeDefinition, ModeState, ScoreDisplay } from './GameMode.js';
 
 
+export { EventBus } from './events.js';
+export type { GameEvents, GameEventName, GameEventBus } from './events.js';
+export { WORLD_STATE_VERSION, capturePhysicsState, restorePhysicsState, serializeWorldState, parseWorldState } from './WorldState.js';
+export type { SlimeState, BallState, PhysicsState, WorldState } from './WorldState.js';
+export { sweepCircleCircle, sweepCircleRect } from './collision.js';
+export type { SweepHit } from './collision.js';
@@ -0,0 +1,160 @@
+import { CONFIG } from './config.js';
+
+// Volleyball point rules: every rally scores, or only the serving side scores
+export type VolleyballScoring = 'rally' | 'sideOut';
+
+// --- RULE SETS (Per-Match Physics & Scoring) ---
+// Everything a match is allowed to vary. Entities, AIs and rollout simulators all read the
+// match's RuleSet instead of CONFIG, so live play and AI predictions always agree.
+// Arena dimensions (internalWidth/Height, groundHeight) stay fixed in CONFIG.
+export interface RuleSet {
+  readonly id: string;
+  readonly name: string;
+  readonly gravity: number;
+  readonly friction: number;
+  readonly slimeSpeed: number;
+  readonly slimeJumpForce: number;
+  readonly ballMaxSpeed: number;
+  readonly winningScore: number;
+  readonly slimeRadius: number;
+  readonly ballRadius: number;
+  readonly popForce: number;
+  readonly ballResetFreezeTicks: number;
+  readonly grabWindowTicks: number;
+  readonly grabHoldTicks: number;
+  readonly throwSpeed: number;
+  readonly VOLLEYBALL_NET_W: number;
+  readonly VOLLEYBALL_NET_H: number;
+  readonly VOLLEYBALL_MAX_TOUCHES: number;
+  readonly VOLLEYBALL_WIN_BY: number;
+  readonly VOLLEYBALL_POINT_CAP: number;
+  readonly VOLLEYBALL_SETS_TO_WIN: number;
+  readonly VOLLEYBALL_SWITCH_SIDES: boolean;
+  readonly VOLLEYBALL_SCORING: VolleyballScoring;
+  readonly SOCCER_GOAL_H: number;
+  readonly SOCCER_CROSSBAR_R: number;
+  readonly SOCCER_HALF_TICKS: number;
+  readonly SOCCER_OVERTIME_TICKS: number;
+  readonly SOCCER_SHOOTOUT_KICKS: number;
+  readonly SOCCER_KICK_TICKS: number;
+  readonly SOCCER_CAMP_TICKS: number;
+  readonly SOCCER_GOAL_AREA_W: number;
+  readonly BASKETBALL_HOOP_H: number;
+  readonly BASKETBALL_RIM_W: number;
+  readonly BASKETBALL_RIM_R: number;
+  readonly TENNIS_NET_W: number;
+  readonly TENNIS_NET_H: number;
+  readonly TENNIS_GAMES_PER_SET: number;
+  readonly TENNIS_SETS_TO_WIN: number;
+}
+
+export const CLASSIC_RULES: RuleSet = {
+  id: 'classic',
+  name: 'Classic',
+  gravity: CONFIG.gravity,
+  friction: CONFIG.friction,
+  slimeSpeed: CONFIG.slimeSpeed,
+  slimeJumpForce: CONFIG.slimeJumpForce,
+  ballMaxSpeed: CONFIG.ballMaxSpeed,
+  winningScore: CONFIG.winningScore,
+  slimeRadius: CONFIG.slimeRadius,
+  ballRadius: CONFIG.ballRadius,
+  popForce: CONFIG.popForce,
+  ballResetFreezeTicks: CONFIG.ballResetFreezeTicks,
+  grabWindowTicks: CONFIG.grabWindowTicks,
+  grabHoldTicks: CONFIG.grabHoldTicks,
+  throwSpeed: CONFIG.throwSpeed,
+  VOLLEYBALL_NET_W: CONFIG.VOLLEYBALL_NET_W,
+  VOLLEYBALL_NET_H: CONFIG.VOLLEYBALL_NET_H,
+  VOLLEYBALL_MAX_TOUCHES: CONFIG.VOLLEYBALL_MAX_TOUCHES,
+  VOLLEYBALL_WIN_BY: CONFIG.VOLLEYBALL_WIN_BY,
+  VOLLEYBALL_POINT_CAP: CONFIG.VOLLEYBALL_POINT_CAP,
+  VOLLEYBALL_SETS_TO_WIN: CONFIG.VOLLEYBALL_SETS_TO_WIN,
+  VOLLEYBALL_SWITCH_SIDES: CONFIG.VOLLEYBALL_SWITCH_SIDES,
+  VOLLEYBALL_SCORING: CONFIG.VOLLEYBALL_SCORING,
+  SOCCER_GOAL_H: CONFIG.SOCCER_GOAL_H,
+  SOCCER_CROSSBAR_R: CONFIG.SOCCER_CROSSBAR_R,
+  SOCCER_HALF_TICKS: CONFIG.SOCCER_HALF_TICKS,
+  SOCCER_OVERTIME_TICKS: CONFIG.SOCCER_OVERTIME_TICKS,
+  SOCCER_SHOOTOUT_KICKS: CONFIG.SOCCER_SHOOTOUT_KICKS,
+  SOCCER_KICK_TICKS: CONFIG.SOCCER_KICK_TICKS,
+  SOCCER_CAMP_TICKS: CONFIG.SOCCER_CAMP_TICKS,
+  SOCCER_GOAL_AREA_W: CONFIG.SOCCER_GOAL_AREA_W,
+  BASKETBALL_HOOP_H: CONFIG.BASKETBALL_HOOP_H,
+  BASKETBALL_RIM_W: CONFIG.BASKETBALL_RIM_W,
+  BASKETBALL_RIM_R: CONFIG.BASKETBALL_RIM_R,
+  TENNIS_NET_W: CONFIG.TENNIS_NET_W,
+  TENNIS_NET_H: CONFIG.TENNIS_NET_H,
+  TENNIS_GAMES_PER_SET: CONFIG.TENNIS_GAMES_PER_SET,
+  TENNIS_SETS_TO_WIN: CONFIG.TENNIS_SETS_TO_WIN,
+};
+
+// Build a rule set from the classic defaults plus overrides.
+export function createRuleSet(overrides: Partial<RuleSet> & Pick<RuleSet, 'id' | 'name'>): RuleSet {
+  return { ...CLASSIC_RULES, ...overrides };
+}
+
+// Presets offered in the selection modal
+export const RULE_PRESETS: readonly RuleSet[] = [
+  CLASSIC_RULES,
+  createRuleSet({
+    id: 'low-gravity',
+    name: 'Low Gravity',
+    gravity: 0.3,
+    slimeJumpForce: 10.5, // similar jump height, much floatier arc
+  }),
+  createRuleSet({
+    id: 'big-goals',
+    name: 'Big Goals',
+    SOCCER_GOAL_H: 200,
+  }),
+  createRuleSet({
+    id: 'timed-soccer',
+    name: 'Timed Soccer',
+    SOCCER_HALF_TICKS: 2 * 60 * 60, // two 2-minute halves, then golden goal and penalties
+    SOCCER_CAMP_TICKS: 3 * 60, // no goal hanging: 3s in your own goal area concedes
+  }),
+  createRuleSet({
+    id: 'official-volleyball',
+    name: 'Official Volleyball',
+    VOLLEYBALL_MAX_TOUCHES: 3, // three touches per side; no double touches in team play
+    VOLLEYBALL_WIN_BY: 2,
+    VOLLEYBALL_SETS_TO_WIN: 2, // best of three, switching ends between sets
+    VOLLEYBALL_SWITCH_SIDES: true,
+  }),
+  createRuleSet({
+    id: 'official-volleyball-bo5',
+    name: 'Official Volleyball (Best of 5)',
+    VOLLEYBALL_MAX_TOUCHES: 3,
+    VOLLEYBALL_WIN_BY: 2,
+    VOLLEYBALL_SETS_TO_WIN: 3, // best of five
+    VOLLEYBALL_SWITCH_SIDES: true,
+  }),
+  createRuleSet({
+    id: 'sideout-volleyball',
+    name: 'Side-Out Volleyball',
+    VOLLEYBALL_SCORING: 'sideOut', // old-school: only the server scores
+    VOLLEYBALL_WIN_BY: 2,
+    VOLLEYBALL_POINT_CAP: 8,
+  }),
+];
+
+export function getRulePreset(id: string): RuleSet {
+  return RULE_PRESETS.find((preset) => preset.id === id) ?? CLASSIC_RULES;
+}
+
+// Goal-camping limits offered in the selection modal, in seconds
+export const CAMP_LIMIT_CHOICES: readonly number[] = [2, 3, 5, 8];
+
+// A rule set with its goal-camping limit replaced (0 seconds turns the rule off). Any preset can
+// take it, so camping is not tied to timed halves.
+export function withCampLimit(rules: RuleSet, seconds: number): RuleSet {
+  const ticks = Math.round(seconds * 60);
+  if (ticks === rules.SOCCER_CAMP_TICKS) return rules;
+  return {
+    ...rules,
+    id: `${rules.id}+camp-${seconds}s`,
+    name: `${rules.name} (${ticks > 0 ? `${seconds}s goal camping` : 'no goal camping'})`,
+    SOCCER_CAMP_TICKS: ticks,
+  };
+}
@@ -0,0 +1,122 @@
+import * as Base from '../base/index.js';
+import { getHoop, type Hoop } from './Hoop.js';
+
+// A floor rebound slower than this (px/tick, in gravity steps) settles instead of bouncing
+const SETTLE_GRAVITY_STEPS = 2;
+
+// --- BALL BASKETBALL (Basketball-Specific Logic) ---
+// Livelier floor bounce than soccer; scores when the ball drops down through a hoop.
+export class BallBasketball extends Base.BallBase {
+  private readonly hoops: readonly Hoop[];
+
+  constructor(game: Base.GameInterface, clock: Base.SimClock, rules: Base.RuleSet) {
+    super(clock, rules);
+    this.game = game;
+    this.hoops = [getHoop(rules, 'left'), getHoop(rules, 'right')];
+  }
+
+  // Opening jump ball at center; after a basket the ball is dropped above the server's slime.
+  reset(serverSlime: Base.SlimeBase | null = null): void {
+    this.x = serverSlime ? serverSlime.x : Base.CONFIG.internalWidth / 2;
+    this.y = serverSlime ? serverSlime.y - 150 : 200;
+    this.prevX = this.x;
+    this.prevY = this.y;
+    this.vx = 0;
+    this.vy = 0;
+    this.freezeFor(this.rules.ballResetFreezeTicks); // short delay before ball starts falling
+  }
+
+  checkGameGeometry(): void {
+    if (!this.game) return;
+
+    const r = this.rules.ballRadius;
+    const groundY = Base.CONFIG.internalHeight - Base.CONFIG.groundHeight;
+
+    // Ground Bounce (keeps more energy than soccer so the ball can be dribbled)
+    if (this.y + r > groundY) {
+      this.y = groundY - r;
+      this.vx *= 0.97;
+      // A resting ball would otherwise micro-bounce (and emit a bounce) every few ticks
+      if (this.vy * 0.85 < this.rules.gravity * SETTLE_GRAVITY_STEPS) {
+        this.vy = 0;
+      } else {
+        this.vy *= -0.85;
+        this.emit('groundBounce', { x: this.x });
+      }
+    }
+
+    // Side Walls
+    if (this.x < r) {
+      this.x = r;
+      this.vx = Math.abs(this.vx) * 0.8;
+      this.emit('wallBounce', { side: 'left' });
+    }
+    if (this.x > Base.CONFIG.internalWidth - r) {
+      this.x = Base.CONFIG.internalWidth - r;
+      this.vx = -Math.abs(this.vx) * 0.8;
+      this.emit('wallBounce', { side: 'right' });
+    }
+
+    for (const hoop of this.hoops) {
+      this.checkHoop(hoop);
+    }
+  }
+
+  private checkHoop(hoop: Hoop): void {
+    if (!this.game) return;
+    const r = this.rules.ballRadius;
+
+    // Backboard (swept, so a hard shot can't pass through it)
+    const boardHit = Base.sweepCircleRect(
+      this.prevX, this.prevY, this.x - this.prevX, this.y - this.prevY, r,
+      hoop.boardLeft, hoop.boardTop, hoop.boardRight, hoop.boardBottom
+    );
+    if (boardHit) {
+      this.x = boardHit.x;
+      this.y = boardHit.y;
+      if (this.vx * boardHit.nx + this.vy * boardHit.ny < 0) {
+        this.reflectVelocity(boardHit.nx, boardHit.ny, 0.7);
+        this.emit('backboardHit', { side: hoop.side });
+      }
+    }
+
+    // Rim
+    if (this.resolveCircleCollision(hoop.frontRimX, hoop.rimY, hoop.rimR) !== null) {
+      this.emit('rimHit', { side: hoop.side });
+    }
+    if (this.resolveCircleCollision(hoop.backRimX, hoop.rimY, hoop.rimR) !== null) {
+      this.emit('rimHit', { side: hoop.side });
+    }
+
+    // Basket: the ball's center crosses the rim line moving down, between the two rims
+    if (this.vy > 0 && this.prevY < hoop.rimY && this.y >= hoop.rimY) {
+      const t = (hoop.rimY - this.prevY) / (this.y - this.prevY);
+      const crossX = this.prevX + (this.x - this.prevX) * t;
+      const innerLeft = Math.min(hoop.frontRimX, hoop.backRimX) + hoop.rimR;
+      const innerRight = Math.max(hoop.frontRimX, hoop.backRimX) - hoop.rimR;
+      if (crossX > innerLeft && crossX < innerRight) {
+        this.game.scorePoint(hoop.scoringPlayer);
+      }
+    }
+  }
+
+  draw(ctx: CanvasRenderingContext2D, alpha: number = 1): void {
+    const r = this.rules.ballRadius;
+    const { x, y } = this.interpolatedPosition(alpha);
+    ctx.beginPath();
+    ctx.arc(x, y, r, 0, Math.PI * 2);
+    ctx.fillStyle = '#e67e22';
+    ctx.fill();
+    ctx.lineWidth = 2;
+    ctx.strokeStyle = '#6e2c00';
+    ctx.stroke();
+    // Basketball seams
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(x - r, y);
+    ctx.lineTo(x + r, y);
+    ctx.moveTo(x, y - r);
+    ctx.lineTo(x, y + r);
+    ctx.stroke();
+  }
+}
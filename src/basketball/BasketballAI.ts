@@ -0,0 +1,104 @@
+import * as Base from '../base/index.js';
+import * as AI from '../ai/index.js';
+import { BASKETBALL_ROLLOUT } from './BasketballRollout.js';
+import { getHoop } from './Hoop.js';
+
+// Basketball AI (either side; reasons in its SideFrame, so it shoots at the LEFT hoop):
+// - Win condition in rollout: ball drops through the opponent's hoop (our point)
+// - Loss condition in rollout: ball drops through our own hoop (their point)
+// Strategy: stay with the ball and pick the input plan whose rollout ends with the ball
+// closest to the target hoop (or scoring outright), never one that concedes if avoidable.
+export class BasketballAI extends AI.AIBase {
+  private input = new AI.VirtualInput();
+  private rollout = new AI.RolloutSimulator(BASKETBALL_ROLLOUT, this.rules);
+  private readonly targetHoop = getHoop(this.rules, 'left'); // in our frame
+  private tick = 0;
+  private lastStrikeTick = -9999;
+
+  private readonly strikeCooldownTicks = 24; // ~400ms @ 60Hz
+  private readonly strikeReach = this.rules.slimeRadius + this.rules.ballRadius + 120; // px
+  private readonly horizon = 80; // ~1.3s: long enough to see a shot drop
+
+  getInput(slime: Base.SlimeBase, ball: Base.BallBase, opponent: Base.SlimeBase, opponentInput: Base.InputSource): Base.InputSource {
+    this.tick++;
+    const tick = this.tick;
+
+    const groundY = Base.CONFIG.internalHeight - Base.CONFIG.groundHeight;
+    const onGround = slime.y >= groundY;
+    const canStrike = (tick - this.lastStrikeTick) >= this.strikeCooldownTicks;
+    const ballClose = Math.hypot(ball.x - slime.x, ball.y - slime.y) < this.strikeReach;
+    const prefersJump = canStrike && onGround && ballClose && !ball.isFrozen();
+
+    const frame = new AI.SideFrame(slime);
+    const opponentPlan = AI.planFromInput(opponentInput, opponent.bindings);
+    const plan = this.pickPlanByRollout(frame, slime, opponent, ball, prefersJump, opponentPlan);
+    if (plan.jumpOnStep0 && onGround) this.lastStrikeTick = tick;
+
+    this.input.clear();
+    const move = frame.action(plan.action);
+    this.input.setKey(slime.bindings.right, move === 'RIGHT');
+    this.input.setKey(slime.bindings.left, move === 'LEFT');
+    this.input.setKey(slime.bindings.jump, plan.jumpOnStep0 && onGround);
+    this.input.setKey(slime.bindings.grab, plan.grabOrThrowOnStep0);
+
+    return this.input;
+  }
+
+  private pickPlanByRollout(
+    frame: AI.SideFrame,
+    slime: Base.SlimeBase,
+    opponent: Base.SlimeBase,
+    ball: Base.BallBase,
+    prefersJump: boolean,
+    opponentPlan: AI.PlayerPlan
+  ): AI.PlayerPlan {
+    const snapshot = frame.snapshot(slime, opponent, ball);
+
+    const candidates: Array<AI.PlayerPlan> = [
+      { action: 'LEFT', jumpOnStep0: false, grabOrThrowOnStep0: false },
+      { action: 'RIGHT', jumpOnStep0: false, grabOrThrowOnStep0: false },
+      { action: 'NONE', jumpOnStep0: false, grabOrThrowOnStep0: false },
+    ];
+    if (prefersJump) {
+      candidates.push({ action: 'LEFT', jumpOnStep0: true, grabOrThrowOnStep0: false });
+      candidates.push({ action: 'RIGHT', jumpOnStep0: true, grabOrThrowOnStep0: false });
+      candidates.push({ action: 'NONE', jumpOnStep0: true, grabOrThrowOnStep0: false });
+    }
+    if (this.grabIsRelevant(slime, ball, opponent)) {
+      candidates.push({ action: 'LEFT', jumpOnStep0: false, grabOrThrowOnStep0: true });
+      candidates.push({ action: 'RIGHT', jumpOnStep0: false, grabOrThrowOnStep0: true });
+      candidates.push({ action: 'NONE', jumpOnStep0: false, grabOrThrowOnStep0: true });
+    }
+
+    let best = candidates[0];
+    let bestScore = -Infinity;
+
+    for (const c of candidates) {
+      const res = this.rollout.run(snapshot, this.horizon, frame.plans(c, opponentPlan), frame.side);
+
+      let score: number;
+      if (res.verdict === 'loss') {
+        // Concede as late as possible if every option concedes
+        score = -1_000_000 + (res.step ?? this.horizon);
+      } else if (res.verdict === 'win') {
+        score = 100_000 - (res.step ?? this.horizon);
+      } else {
+        // No basket yet: ball close to the target hoop, and us close to the ball
+        const end = frame.view(res.end);
+        score = -Math.hypot(end.ball.x - this.targetHoop.centerX, end.ball.y - this.targetHoop.rimY);
+        score -= Math.abs(end.ball.x - end.self.x) * 2.0;
+      }
+
+      // Mild costs so we don't spam jump/grab
+      if (c.jumpOnStep0) score -= 30;
+      if (c.grabOrThrowOnStep0) score -= 20;
+
+      if (score > bestScore) {
+        bestScore = score;
+        best = c;
+      }
+    }
+
+    return best;
+  }
+}
@@ -0,0 +1,66 @@
+import * as Base from '../base/index.js';
+import { SlimeBasketball } from './SlimeBasketball.js';
+import { BallBasketball } from './BallBasketball.js';
+import { BasketballAI } from './BasketballAI.js';
+import { getHoop, type HoopSide } from './Hoop.js';
+
+function drawHoop(ctx: CanvasRenderingContext2D, groundY: number, rules: Base.RuleSet, side: HoopSide): void {
+  const hoop = getHoop(rules, side);
+  const dir = side === 'left' ? 1 : -1;
+
+  // Pole
+  ctx.fillStyle = '#7f8c8d';
+  const poleX = side === 'left' ? hoop.boardLeft - 6 : hoop.boardRight;
+  ctx.fillRect(poleX, hoop.boardBottom, 6, groundY - hoop.boardBottom);
+
+  // Backboard
+  ctx.fillStyle = '#ecf0f1';
+  ctx.fillRect(hoop.boardLeft, hoop.boardTop, hoop.boardRight - hoop.boardLeft, hoop.boardBottom - hoop.boardTop);
+  ctx.strokeStyle = '#000';
+  ctx.lineWidth = 2;
+  ctx.strokeRect(hoop.boardLeft, hoop.boardTop, hoop.boardRight - hoop.boardLeft, hoop.boardBottom - hoop.boardTop);
+
+  // Net (drawn first so the rim sits on top)
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  const netDepth = 36;
+  const inset = rules.BASKETBALL_RIM_W * 0.2;
+  ctx.moveTo(hoop.backRimX, hoop.rimY);
+  ctx.lineTo(hoop.backRimX + dir * inset, hoop.rimY + netDepth);
+  ctx.lineTo(hoop.frontRimX - dir * inset, hoop.rimY + netDepth);
+  ctx.lineTo(hoop.frontRimX, hoop.rimY);
+  ctx.stroke();
+
+  // Rim
+  ctx.strokeStyle = '#e74c3c';
+  ctx.lineWidth = hoop.rimR * 2;
+  ctx.beginPath();
+  ctx.moveTo(hoop.backRimX, hoop.rimY);
+  ctx.lineTo(hoop.frontRimX, hoop.rimY);
+  ctx.stroke();
+  ctx.lineWidth = 2;
+}
+
+function drawBasketballHoops(ctx: CanvasRenderingContext2D, groundY: number, rules: Base.RuleSet): void {
+  drawHoop(ctx, groundY, rules, 'left');
+  drawHoop(ctx, groundY, rules, 'right');
+}
+
+// --- SLIME BASKETBALL MODE ---
+// Jump ball at center to open; after a basket the conceding player gets the ball. First to winningScore.
+export const BASKETBALL_MODE: Base.GameModeDefinition = {
+  id: 'BASKETBALL',
+  name: 'Slime Basketball',
+  emoji: '🏀',
+  SlimeClass: SlimeBasketball,
+  BallClass: BallBasketball,
+  drawArena: drawBasketballHoops,
+  servingSlime: (match) => {
+    if (match.getTotalScore() === 0) return null;
+    return match.server === 1 ? match.p1 : match.p2;
+  },
+  nextServer: (_match, scoringPlayer) => (scoringPlayer === 1 ? 2 : 1),
+  checkWinner: Base.firstToWinningScore,
+  createAI: (rules) => new BasketballAI(rules),
+};
@@ -0,0 +1,12 @@
+import type * as AI from '../ai/index.js';
+import { SlimeBasketball } from './SlimeBasketball.js';
+import { BallBasketball } from './BallBasketball.js';
+
+// Basketball rollouts: a basket ends the rollout (a basket for the perspective player is a 'win').
+// No extra metrics: the AI scores end states directly.
+export const BASKETBALL_ROLLOUT: AI.RolloutMode<AI.NoMetrics> = {
+  SlimeClass: SlimeBasketball,
+  BallClass: BallBasketball,
+  createMetrics: () => ({}),
+  updateMetrics: () => {},
+};
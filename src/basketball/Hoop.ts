@@ -0,0 +1,51 @@
+import * as Base from '../base/index.js';
+
+export type HoopSide = 'left' | 'right';
+
+// Hoop geometry shared by physics, drawing and the AI.
+// The rim is two small circle colliders (front and back); the back rim is fixed to the backboard.
+export interface Hoop {
+  side: HoopSide;
+  scoringPlayer: 1 | 2; // Player who scores by putting the ball through this hoop
+  rimY: number;
+  frontRimX: number;
+  backRimX: number;
+  rimR: number;
+  centerX: number;
+  // Backboard rectangle
+  boardLeft: number;
+  boardRight: number;
+  boardTop: number;
+  boardBottom: number;
+}
+
+const BOARD_INSET = 12; // gap between the backboard and the side wall
+const BOARD_W = 8;
+const BOARD_ABOVE_RIM = 100;
+const BOARD_BELOW_RIM = 20;
+
+export function getHoop(rules: Base.RuleSet, side: HoopSide): Hoop {
+  const groundY = Base.CONFIG.internalHeight - Base.CONFIG.groundHeight;
+  const rimY = groundY - rules.BASKETBALL_HOOP_H;
+  const dir = side === 'left' ? 1 : -1; // direction from the wall toward the court
+  const wallX = side === 'left' ? 0 : Base.CONFIG.internalWidth;
+
+  const boardFront = wallX + dir * (BOARD_INSET + BOARD_W);
+  const backRimX = boardFront + dir * rules.BASKETBALL_RIM_R;
+  const frontRimX = backRimX + dir * rules.BASKETBALL_RIM_W;
+  const boardBack = wallX + dir * BOARD_INSET;
+
+  return {
+    side,
+    scoringPlayer: side === 'left' ? 2 : 1,
+    rimY,
+    frontRimX,
+    backRimX,
+    rimR: rules.BASKETBALL_RIM_R,
+    centerX: (frontRimX + backRimX) / 2,
+    boardLeft: Math.min(boardFront, boardBack),
+    boardRight: Math.max(boardFront, boardBack),
+    boardTop: rimY - BOARD_ABOVE_RIM,
+    boardBottom: rimY + BOARD_BELOW_RIM,
+  };
+}
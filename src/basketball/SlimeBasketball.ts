@@ -0,0 +1,14 @@
+import * as Base from '../base/index.js';
+
+// --- SLIME BASKETBALL (Full Court Boundaries) ---
+export class SlimeBasketball extends Base.SlimeBase {
+  constructor(isPlayer1: boolean, clock: Base.SimClock, rules: Base.RuleSet, slot?: Base.TeamSlot) {
+    super(isPlayer1, isPlayer1 ? '#e74c3c' : '#3498db', clock, rules, slot);
+  }
+
+  applyBoundaries(): void {
+    const r = this.rules.slimeRadius;
+    if (this.x - r < 0) this.x = r;
+    if (this.x + r > Base.CONFIG.internalWidth) this.x = Base.CONFIG.internalWidth - r;
+  }
+}
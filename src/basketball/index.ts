@@ -0,0 +1,8 @@
+
+export { BallBasketball } from './BallBasketball.js';
+export { SlimeBasketball } from './SlimeBasketball.js';
+export { BasketballAI } from './BasketballAI.js';
+export { getHoop } from './Hoop.js';
+export type { Hoop, HoopSide } from './Hoop.js';
+export { BASKETBALL_ROLLOUT } from './BasketballRollout.js';
+export { BASKETBALL_MODE } from './BasketballMode.js';
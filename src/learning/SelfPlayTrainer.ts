@@ -0,0 +1,150 @@
+import * as Base from '../base/index.js';
+import * as AI from '../ai/index.js';
+import * as Arena from '../arena/index.js';
+import { SepCMAES } from './SepCMAES.js';
+
+export interface TrainerSettings {
+  mode: Base.GameMode;
+  rules: Base.RuleSet;
+  name: string; // saved into the weights file
+  hidden: readonly number[]; // hidden layer sizes
+  opponents: readonly Arena.ArenaEntrant[]; // the existing bots to train against
+  seed: number;
+  sigma: number; // starting step size for the weights
+  populationSize?: number; // candidates per generation (default: the optimizer's)
+  gamesPerOpponent: number; // per candidate per generation
+  selfPlayGames: number; // per candidate per generation, against earlier snapshots of itself
+  snapshotEvery: number; // generations between self-play snapshots
+  tickLimit: number; // per game
+  initial?: AI.MLPPolicy; // warm start (e.g. a saved policy to keep training)
+}
+
+export interface GenerationReport {
+  generation: number;
+  bestFitness: number;
+  meanFitness: number;
+  stepSize: number;
+  opponents: string[]; // who this generation played
+  snapshots: number; // self-play pool size
+}
+
+// --- SELF-PLAY TRAINER (Evolving P2 Policies) ---
+// Trains an MLPPolicy as P2 with sep-CMA-ES. Every candidate plays the same seeded games (the
+// arena's headless matches, kickoff jitter included) against the configured bots and against
+// snapshots of the policy from earlier generations, so candidates are compared on equal terms
+// and keep improving once they beat the fixed bots. The current mean of the search is the policy
+// it reports and saves.
+export class SelfPlayTrainer {
+  private readonly optimizer: SepCMAES;
+  private readonly sizes: number[];
+  private readonly random: () => number;
+  private readonly snapshots: Arena.ArenaEntrant[] = [];
+
+  constructor(private readonly settings: TrainerSettings) {
+    if (settings.opponents.length === 0 && settings.selfPlayGames <= 0) {
+      throw new Error('The trainer needs opponents or self-play games');
+    }
+    // Fitness counts one game's points, so a game must be a single set
+    if (settings.mode === 'VOLLEYBALL' && settings.rules.VOLLEYBALL_SETS_TO_WIN > 1) {
+      throw new Error(`Rule set ${settings.rules.id} plays volleyball in sets; train with single-set rules`);
+    }
+    this.sizes = settings.initial?.sizes ?? AI.MLPPolicy.layerSizes(settings.hidden);
+    this.random = AI.seededRandom(settings.seed);
+    const mean = settings.initial?.toVector() ?? this.initialWeights();
+    this.optimizer = new SepCMAES({
+      mean,
+      sigma: settings.sigma,
+      seed: settings.seed + 1,
+      populationSize: settings.populationSize,
+    });
+    // Self-play needs someone to play from the start
+    this.snapshots.push(this.snapshotEntrant(0));
+  }
+
+  get generation(): number {
+    return this.optimizer.generation;
+  }
+
+  get layerSizes(): readonly number[] {
+    return this.sizes;
+  }
+
+  // The policy so far (the search mean)
+  policy(): AI.MLPPolicy {
+    return AI.MLPPolicy.fromVector(this.settings.name, this.settings.mode, this.sizes, this.optimizer.currentMean);
+  }
+
+  runGeneration(): GenerationReport {
+    const { settings } = this;
+    const games = this.scheduleGames();
+    const candidates = this.optimizer.ask();
+    const fitness = candidates.map((weights) => {
+      const policy = AI.MLPPolicy.fromVector(settings.name, settings.mode, this.sizes, weights);
+      const learner = Arena.learnedPolicyEntrant(policy, `${settings.name}-candidate`);
+      let total = 0;
+      for (const game of games) {
+        const result = Arena.playArenaMatch(game.opponent, learner, {
+          mode: settings.mode,
+          rules: settings.rules,
+          seed: game.seed,
+          tickLimit: settings.tickLimit,
+        });
+        total += gameFitness(result, settings.rules, settings.tickLimit);
+      }
+      return total / games.length;
+    });
+    this.optimizer.tell(fitness);
+
+    if (this.optimizer.generation % settings.snapshotEvery === 0) {
+      this.snapshots.push(this.snapshotEntrant(this.optimizer.generation));
+    }
+    return {
+      generation: this.optimizer.generation,
+      bestFitness: Math.max(...fitness),
+      meanFitness: fitness.reduce((sum, value) => sum + value, 0) / fitness.length,
+      stepSize: this.optimizer.stepSize,
+      opponents: [...new Set(games.map((game) => game.opponent.name))],
+      snapshots: this.snapshots.length,
+    };
+  }
+
+  // Small random weights: a fresh network already reacts to its inputs
+  private initialWeights(): number[] {
+    const weights: number[] = [];
+    for (let i = 1; i < this.sizes.length; i++) {
+      const scale = 1 / Math.sqrt(this.sizes[i - 1]);
+      for (let j = 0; j < this.sizes[i] * this.sizes[i - 1]; j++) weights.push((this.random() * 2 - 1) * scale);
+      for (let j = 0; j < this.sizes[i]; j++) weights.push(0);
+    }
+    return weights;
+  }
+
+  // This generation's games, shared by every candidate
+  private scheduleGames(): { opponent: Arena.ArenaEntrant; seed: number }[] {
+    const { settings } = this;
+    const nextSeed = (): number => Math.floor(this.random() * 2 ** 31);
+    const games: { opponent: Arena.ArenaEntrant; seed: number }[] = [];
+    for (const opponent of settings.opponents) {
+      for (let i = 0; i < settings.gamesPerOpponent; i++) games.push({ opponent, seed: nextSeed() });
+    }
+    for (let i = 0; i < settings.selfPlayGames; i++) {
+      const opponent = this.snapshots[Math.floor(this.random() * this.snapshots.length)];
+      games.push({ opponent, seed: nextSeed() });
+    }
+    return games;
+  }
+
+  private snapshotEntrant(generation: number): Arena.ArenaEntrant {
+    return Arena.learnedPolicyEntrant(this.policy(), `${this.settings.name}@${generation}`);
+  }
+}
+
+// One game's fitness for the right-side learner: the result (win 2, draw 1, loss 0) plus the point
+// difference as a fraction of the winning score. A game it did not win also earns up to 1 for
+// lasting longer, which separates the early policies that all lose heavily.
+function gameFitness(result: Arena.ArenaMatchResult, rules: Base.RuleSet, tickLimit: number): number {
+  const [against, scored] = result.score;
+  const outcome = result.winner === null ? 1 : result.winner === result.right ? 2 : 0;
+  const survival = outcome === 2 ? 1 : Math.min(1, result.ticks / tickLimit);
+  return outcome + (scored - against) / Math.max(1, rules.winningScore) + survival;
+}
@@ -0,0 +1,134 @@
+import * as AI from '../ai/index.js';
+
+export interface SepCMAESSettings {
+  mean: readonly number[]; // starting point
+  sigma: number; // starting step size
+  seed: number;
+  populationSize?: number; // default 4 + 3 ln(n)
+}
+
+// --- SEP-CMA-ES (Diagonal Covariance Evolution Strategy) ---
+// Derivative-free optimizer for the policy weights (Ros & Hansen's separable CMA-ES). Each
+// generation samples candidates around a mean, moves the mean towards the best-scoring ones and
+// adapts one step size per parameter plus a global step size. Keeping only the diagonal of the
+// covariance makes an update O(n), which suits networks with a few hundred weights. Maximizes.
+export class SepCMAES {
+  readonly dimension: number;
+  readonly populationSize: number;
+  generation = 0;
+
+  private mean: number[];
+  private sigma: number;
+  private readonly variances: number[]; // diagonal of C
+  private readonly evolutionPath: number[]; // p_c
+  private readonly sigmaPath: number[]; // p_sigma
+  private readonly random: () => number;
+
+  private readonly parents: number;
+  private readonly recombinationWeights: number[];
+  private readonly effectiveParents: number; // mu_eff
+  private readonly cSigma: number;
+  private readonly dSigma: number;
+  private readonly cc: number;
+  private readonly c1: number;
+  private readonly cMu: number;
+  private readonly expectedNorm: number; // E|N(0, I)|
+
+  // The last ask()'s samples: steps from the mean in C's metric (y = D z)
+  private steps: number[][] = [];
+
+  constructor(settings: SepCMAESSettings) {
+    const n = settings.mean.length;
+    if (n === 0) throw new Error('SepCMAES needs at least one parameter');
+    if (!(settings.sigma > 0)) throw new Error(`SepCMAES step size must be positive: ${settings.sigma}`);
+    this.dimension = n;
+    this.populationSize = settings.populationSize ?? 4 + Math.floor(3 * Math.log(n));
+    if (!Number.isInteger(this.populationSize) || this.populationSize < 2) {
+      throw new Error(`SepCMAES population must be an integer of at least 2: ${this.populationSize}`);
+    }
+    this.mean = [...settings.mean];
+    this.sigma = settings.sigma;
+    this.variances = new Array<number>(n).fill(1);
+    this.evolutionPath = new Array<number>(n).fill(0);
+    this.sigmaPath = new Array<number>(n).fill(0);
+    this.random = AI.seededRandom(settings.seed);
+
+    this.parents = Math.floor(this.populationSize / 2);
+    const raw = Array.from({ length: this.parents }, (_, i) => Math.log(this.parents + 0.5) - Math.log(i + 1));
+    const total = raw.reduce((sum, w) => sum + w, 0);
+    this.recombinationWeights = raw.map((w) => w / total);
+    this.effectiveParents = 1 / this.recombinationWeights.reduce((sum, w) => sum + w * w, 0);
+
+    const mu = this.effectiveParents;
+    this.cSigma = (mu + 2) / (n + mu + 5);
+    this.dSigma = 1 + 2 * Math.max(0, Math.sqrt((mu - 1) / (n + 1)) - 1) + this.cSigma;
+    this.cc = (4 + mu / n) / (n + 4 + (2 * mu) / n);
+    // The separable variant may learn (n + 2) / 3 times faster than full CMA-ES
+    const speedup = (n + 2) / 3;
+    this.c1 = Math.min(1, (speedup * 2) / ((n + 1.3) ** 2 + mu));
+    this.cMu = Math.min(1 - this.c1, (speedup * 2 * (mu - 2 + 1 / mu)) / ((n + 2) ** 2 + mu));
+    this.expectedNorm = Math.sqrt(n) * (1 - 1 / (4 * n) + 1 / (21 * n * n));
+  }
+
+  get currentMean(): readonly number[] {
+    return this.mean;
+  }
+
+  get stepSize(): number {
+    return this.sigma;
+  }
+
+  // This generation's candidates (score them all, then call tell() in the same order)
+  ask(): number[][] {
+    this.steps = Array.from({ length: this.populationSize }, () =>
+      this.variances.map((variance) => Math.sqrt(variance) * this.gaussian())
+    );
+    return this.steps.map((step) => step.map((y, i) => this.mean[i] + this.sigma * y));
+  }
+
+  tell(fitness: readonly number[]): void {
+    if (fitness.length !== this.steps.length) {
+      throw new Error(`SepCMAES expected ${this.steps.length} fitness values, got ${fitness.length}`);
+    }
+    const n = this.dimension;
+    const ranked = fitness.map((value, i) => ({ value, i })).sort((a, b) => b.value - a.value);
+    const best = ranked.slice(0, this.parents).map(({ i }) => this.steps[i]);
+
+    const meanStep = new Array<number>(n).fill(0);
+    best.forEach((step, k) => {
+      for (let i = 0; i < n; i++) meanStep[i] += this.recombinationWeights[k] * step[i];
+    });
+    for (let i = 0; i < n; i++) this.mean[i] += this.sigma * meanStep[i];
+
+    const mu = this.effectiveParents;
+    const sigmaScale = Math.sqrt(this.cSigma * (2 - this.cSigma) * mu);
+    for (let i = 0; i < n; i++) {
+      this.sigmaPath[i] = (1 - this.cSigma) * this.sigmaPath[i] + sigmaScale * (meanStep[i] / Math.sqrt(this.variances[i]));
+    }
+    const sigmaPathNorm = Math.hypot(...this.sigmaPath);
+    this.generation++;
+    // Stall the covariance path while the step size is growing fast (h_sigma)
+    const stalled = sigmaPathNorm / Math.sqrt(1 - (1 - this.cSigma) ** (2 * this.generation))
+      >= (1.4 + 2 / (n + 1)) * this.expectedNorm;
+
+    const pathScale = stalled ? 0 : Math.sqrt(this.cc * (2 - this.cc) * mu);
+    for (let i = 0; i < n; i++) {
+      this.evolutionPath[i] = (1 - this.cc) * this.evolutionPath[i] + pathScale * meanStep[i];
+      let rankMu = 0;
+      best.forEach((step, k) => {
+        rankMu += this.recombinationWeights[k] * step[i] * step[i];
+      });
+      const correction = stalled ? this.cc * (2 - this.cc) * this.variances[i] : 0;
+      this.variances[i] = (1 - this.c1 - this.cMu) * this.variances[i]
+        + this.c1 * (this.evolutionPath[i] ** 2 + correction)
+        + this.cMu * rankMu;
+    }
+    this.sigma *= Math.exp((this.cSigma / this.dSigma) * (sigmaPathNorm / this.expectedNorm - 1));
+  }
+
+  // Standard normal sample (Box-Muller)
+  private gaussian(): number {
+    const u = 1 - this.random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * this.random());
+  }
+}
@@ -0,0 +1,4 @@
+export { SepCMAES } from './SepCMAES.js';
+export type { SepCMAESSettings } from './SepCMAES.js';
+export { SelfPlayTrainer } from './SelfPlayTrainer.js';
+export type { TrainerSettings, GenerationReport } from './SelfPlayTrainer.js';
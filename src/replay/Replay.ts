@@ -0,0 +1,95 @@
+import { CLASSIC_RULES, type RuleSet } from '../base/rules.js';
+import type { InputSource, KeyBindings } from '../base/index.js';
+import { hasGameMode, type GameMode } from '../base/GameMode.js';
+
+export const REPLAY_VERSION = 1;
+
+// A slime's keys in bit order (bit 0 = left, 1 = right, 2 = jump, 3 = grab/throw).
+// Masks are recorded through each slime's own bindings, so they don't depend on which keyboard
+// layout (or AI) drove it.
+function bindingKeys(bindings: KeyBindings): readonly string[] {
+  return [bindings.left, bindings.right, bindings.jump, bindings.grab];
+}
+
+// On-disk replay format.
+// Inputs are stored as run-length encoded bitmasks: [mask, count, mask, count, ...]
+// so long stretches of "holding right" or "standing still" cost two numbers.
+export interface ReplayFile {
+  version: number;
+  mode: GameMode;
+  rules: RuleSet;
+  ticks: number;
+  p1: number[];
+  p2: number[];
+  // Team play: slimes per side (absent = 1) and one run list per match.teammates entry
+  teamSize?: number;
+  teammates?: number[][];
+}
+
+export function maskFromInput(input: InputSource, bindings: KeyBindings): number {
+  const keys = bindingKeys(bindings);
+  let mask = 0;
+  for (let bit = 0; bit < keys.length; bit++) {
+    if (input.isDown(keys[bit])) mask |= 1 << bit;
+  }
+  return mask;
+}
+
+// Read-only InputSource backed by a recorded bitmask.
+export class MaskInput implements InputSource {
+  mask: number = 0;
+  private readonly keys: readonly string[];
+
+  constructor(bindings: KeyBindings) {
+    this.keys = bindingKeys(bindings);
+  }
+
+  isDown(code: string): boolean {
+    const bit = this.keys.indexOf(code);
+    return bit >= 0 && (this.mask & (1 << bit)) !== 0;
+  }
+}
+
+export function encodeRuns(masks: ArrayLike<number>): number[] {
+  const runs: number[] = [];
+  for (let i = 0; i < masks.length; i++) {
+    const last = runs.length - 2;
+    if (last >= 0 && runs[last] === masks[i]) runs[last + 1]++;
+    else runs.push(masks[i], 1);
+  }
+  return runs;
+}
+
+export function decodeRuns(runs: readonly number[], ticks: number): Uint8Array {
+  const masks = new Uint8Array(ticks);
+  let t = 0;
+  for (let i = 0; i + 1 < runs.length && t < ticks; i += 2) {
+    const end = Math.min(ticks, t + runs[i + 1]);
+    masks.fill(runs[i], t, end);
+    t = end;
+  }
+  return masks;
+}
+
+export function serializeReplay(replay: ReplayFile): string {
+  return JSON.stringify(replay);
+}
+
+export function parseReplay(text: string): ReplayFile {
+  const data = JSON.parse(text) as Partial<ReplayFile>;
+  if (data.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version: ${data.version}`);
+  }
+  if (typeof data.mode !== 'string' || !hasGameMode(data.mode)) {
+    throw new Error(`Unknown replay mode: ${data.mode}`);
+  }
+  if (!data.rules || typeof data.ticks !== 'number' || !Array.isArray(data.p1) || !Array.isArray(data.p2)) {
+    throw new Error('Malformed replay file');
+  }
+  const teammateCount = 2 * ((data.teamSize ?? 1) - 1);
+  if ((data.teammates?.length ?? 0) !== teammateCount || !(data.teammates ?? []).every(Array.isArray)) {
+    throw new Error('Malformed replay file');
+  }
+  // Fill any rule fields missing from the file with the classic defaults
+  return { ...data, rules: { ...CLASSIC_RULES, ...data.rules } } as ReplayFile;
+}
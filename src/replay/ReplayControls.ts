@@ -0,0 +1,122 @@
+import { SimClock } from '../base/SimClock.js';
+
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4] as const;
+
+export interface ReplayControlsHandlers {
+  onTogglePlay(): void;
+  onSeek(tick: number): void;
+  onSpeedChange(speed: number): void;
+}
+
+// --- REPLAY CONTROLS (Play/Pause, Scrub Bar, Speed) ---
+// Self-contained overlay (like TouchInput): builds its own DOM and styles.
+export class ReplayControls {
+  private container: HTMLDivElement;
+  private playBtn: HTMLButtonElement;
+  private scrubber: HTMLInputElement;
+  private timeLabel: HTMLSpanElement;
+  private speedSelect: HTMLSelectElement;
+
+  constructor(handlers: ReplayControlsHandlers) {
+    this.initStyles();
+
+    this.container = document.createElement('div');
+    this.container.id = 'replay-controls';
+
+    this.playBtn = document.createElement('button');
+    this.playBtn.type = 'button';
+    this.playBtn.addEventListener('click', () => handlers.onTogglePlay());
+
+    this.scrubber = document.createElement('input');
+    this.scrubber.type = 'range';
+    this.scrubber.min = '0';
+    this.scrubber.step = '1';
+    this.scrubber.addEventListener('input', () => handlers.onSeek(Number(this.scrubber.value)));
+
+    this.timeLabel = document.createElement('span');
+    this.timeLabel.className = 'replay-time';
+
+    this.speedSelect = document.createElement('select');
+    for (const speed of REPLAY_SPEEDS) {
+      const option = document.createElement('option');
+      option.value = String(speed);
+      option.textContent = `${speed}x`;
+      option.selected = speed === 1;
+      this.speedSelect.appendChild(option);
+    }
+    this.speedSelect.addEventListener('change', () => handlers.onSpeedChange(Number(this.speedSelect.value)));
+
+    this.container.append(this.playBtn, this.scrubber, this.timeLabel, this.speedSelect);
+    document.body.appendChild(this.container);
+    this.hide();
+  }
+
+  show(length: number): void {
+    this.scrubber.max = String(length);
+    this.speedSelect.value = '1';
+    this.container.style.display = 'flex';
+  }
+
+  hide(): void {
+    this.container.style.display = 'none';
+  }
+
+  setPlaying(playing: boolean): void {
+    this.playBtn.textContent = playing ? '⏸' : '▶';
+  }
+
+  setProgress(tick: number, length: number): void {
+    this.scrubber.value = String(tick);
+    this.timeLabel.textContent = `${formatTicks(tick)} / ${formatTicks(length)}`;
+  }
+
+  private initStyles(): void {
+    const style = document.createElement('style');
+    style.textContent = `
+      #replay-controls {
+        position: fixed;
+        bottom: calc(16px + env(safe-area-inset-bottom, 0px));
+        left: 50%;
+        transform: translateX(-50%);
+        z-index: 200;
+        display: flex;
+        align-items: center;
+        gap: 12px;
+        padding: 10px 16px;
+        border-radius: 999px;
+        background: rgba(0, 0, 0, 0.55);
+        color: white;
+        font-family: 'Inter', system-ui, -apple-system, sans-serif;
+        font-weight: 700;
+        font-size: 14px;
+        width: min(640px, 90vw);
+        box-sizing: border-box;
+      }
+      #replay-controls button {
+        border: none;
+        background: transparent;
+        color: white;
+        font-size: 18px;
+        cursor: pointer;
+        width: 28px;
+      }
+      #replay-controls input[type=range] { flex: 1; }
+      #replay-controls select {
+        border-radius: 8px;
+        border: none;
+        padding: 2px 4px;
+        font-weight: 700;
+      }
+      #replay-controls .replay-time { font-variant-numeric: tabular-nums; white-space: nowrap; }
+    `;
+    document.head.appendChild(style);
+  }
+}
+
+// Ticks -> m:ss
+function formatTicks(ticks: number): string {
+  const totalSeconds = Math.floor(ticks / SimClock.TICKS_PER_SECOND);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
@@ -0,0 +1,79 @@
+import { Match } from '../base/Match.js';
+import type { WorldState } from '../base/WorldState.js';
+import { MaskInput, decodeRuns, type ReplayFile } from './Replay.js';
+
+// Snapshot spacing for fast backward seeks (10s @ 60Hz)
+const CHECKPOINT_INTERVAL_TICKS = 600;
+
+// Re-simulates a recorded match tick by tick from its input log.
+// Seeking backwards restores the nearest earlier WorldState checkpoint and fast-forwards
+// from there (physics is deterministic, so the result is identical to playing through).
+export class ReplayPlayer {
+  readonly replay: ReplayFile;
+  match: Match;
+
+  private readonly p1Masks: Uint8Array;
+  private readonly p2Masks: Uint8Array;
+  private readonly teammateMasks: Uint8Array[];
+  private readonly p1Input: MaskInput;
+  private readonly p2Input: MaskInput;
+  private readonly teammateInputs: MaskInput[];
+  private tick: number = 0;
+  private readonly checkpoints = new Map<number, WorldState>();
+
+  constructor(replay: ReplayFile) {
+    this.replay = replay;
+    this.p1Masks = decodeRuns(replay.p1, replay.ticks);
+    this.p2Masks = decodeRuns(replay.p2, replay.ticks);
+    this.teammateMasks = (replay.teammates ?? []).map((runs) => decodeRuns(runs, replay.ticks));
+    this.match = this.createMatch();
+
+    // Decoded through the slimes' bindings (every Match built here has the same default ones)
+    this.p1Input = new MaskInput(this.match.p1.bindings);
+    this.p2Input = new MaskInput(this.match.p2.bindings);
+    this.teammateInputs = this.match.teammates.map((slime) => new MaskInput(slime.bindings));
+  }
+
+  get length(): number {
+    return this.replay.ticks;
+  }
+
+  get currentTick(): number {
+    return this.tick;
+  }
+
+  isAtEnd(): boolean {
+    return this.tick >= this.replay.ticks;
+  }
+
+  step(): void {
+    if (this.isAtEnd()) return;
+    this.p1Input.mask = this.p1Masks[this.tick];
+    this.p2Input.mask = this.p2Masks[this.tick];
+    this.teammateInputs.forEach((input, i) => { input.mask = this.teammateMasks[i][this.tick]; });
+    this.match.step({ p1: this.p1Input, p2: this.p2Input, teammates: this.teammateInputs });
+    this.tick++;
+    if (this.tick % CHECKPOINT_INTERVAL_TICKS === 0 && !this.checkpoints.has(this.tick)) {
+      this.checkpoints.set(this.tick, this.match.captureState());
+    }
+  }
+
+  seek(targetTick: number): void {
+    const target = Math.max(0, Math.min(this.replay.ticks, Math.floor(targetTick)));
+    if (target < this.tick) {
+      const checkpointTick = Math.floor(target / CHECKPOINT_INTERVAL_TICKS) * CHECKPOINT_INTERVAL_TICKS;
+      const checkpoint = this.checkpoints.get(checkpointTick);
+      this.match = this.createMatch();
+      this.tick = 0;
+      if (checkpoint) {
+        this.match.restoreState(checkpoint);
+        this.tick = checkpointTick;
+      }
+    }
+    while (this.tick < target) this.step();
+  }
+
+  private createMatch(): Match {
+    return new Match(this.replay.mode, { rules: this.replay.rules, teamSize: this.replay.teamSize });
+  }
+}
@@ -0,0 +1,39 @@
+import type { InputSource } from '../base/index.js';
+import type { Match } from '../base/Match.js';
+import { REPLAY_VERSION, maskFromInput, encodeRuns, type ReplayFile } from './Replay.js';
+
+// Captures the exact inputs fed into each Match.step so the match can be re-simulated later.
+// Call record() with the same InputSources immediately before stepping the match.
+export class ReplayRecorder {
+  private p1Masks: number[] = [];
+  private p2Masks: number[] = [];
+  private teammateMasks: number[][];
+
+  constructor(private readonly match: Match) {
+    this.teammateMasks = match.teammates.map(() => []);
+  }
+
+  record(p1Input: InputSource, p2Input: InputSource, teammateInputs: readonly InputSource[] = []): void {
+    this.p1Masks.push(maskFromInput(p1Input, this.match.p1.bindings));
+    this.p2Masks.push(maskFromInput(p2Input, this.match.p2.bindings));
+    this.match.teammates.forEach((slime, i) => {
+      this.teammateMasks[i].push(teammateInputs[i] ? maskFromInput(teammateInputs[i], slime.bindings) : 0);
+    });
+  }
+
+  finish(): ReplayFile {
+    const replay: ReplayFile = {
+      version: REPLAY_VERSION,
+      mode: this.match.mode,
+      rules: { ...this.match.rules },
+      ticks: this.p1Masks.length,
+      p1: encodeRuns(this.p1Masks),
+      p2: encodeRuns(this.p2Masks),
+    };
+    if (this.match.teamSize > 1) {
+      replay.teamSize = this.match.teamSize;
+      replay.teammates = this.teammateMasks.map((masks) => encodeRuns(masks));
+    }
+    return replay;
+  }
+}
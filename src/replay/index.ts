@@ -0,0 +1,6 @@
+
+export { REPLAY_VERSION, MaskInput, maskFromInput, serializeReplay, parseReplay } from './Replay.js';
+export type { ReplayFile } from './Replay.js';
+export { ReplayRecorder } from './ReplayRecorder.js';
+export { ReplayPlayer } from './ReplayPlayer.js';
+export { ReplayControls, REPLAY_SPEEDS } from './ReplayControls.js';
@@ -2,8 +2,8 @@ import * as Base from '../base/index.js';
 
 // --- BALL SOCCER (Soccer-Specific Logic) ---
 export class BallSoccer extends Base.BallBase {
-  constructor(game: Base.GameInterface) {
-    super();
+  constructor(game: Base.GameInterface, clock: Base.SimClock, rules: Base.RuleSet) {
+    super(clock, rules);
     this.game = game;
   }
 
@@ -14,21 +14,22 @@ export class BallSoccer extends Base.BallBase {
     this.prevY = this.y;
     this.vx = 0;
     this.vy = 0;
-    this.frozenUntil = Date.now() + 200; // 200ms delay before ball starts falling
+    this.freezeFor(this.rules.ballResetFreezeTicks); // short delay before ball starts falling
   }
 
   checkGameGeometry(): void {
     if (!this.game) return;
     
-    const r = Base.CONFIG.ballRadius; 
+    const r = this.rules.ballRadius; 
     const groundY = Base.CONFIG.internalHeight - Base.CONFIG.groundHeight;
-    const goalTopY = groundY - Base.CONFIG.SOCCER_GOAL_H;
+    const goalTopY = groundY - this.rules.SOCCER_GOAL_H;
     
     // Ground Bounce
     if (this.y + r > groundY) {
       this.y = groundY - r;
       this.vy *= -0.80; 
       this.vx *= 0.95;  
+      this.emit('groundBounce', { x: this.x });
     }
 
     // Side Walls/Goals
@@ -36,6 +37,7 @@ export class BallSoccer extends Base.BallBase {
       if (this.y < goalTopY) {
         this.x = r;
         this.vx *= -0.8;
+        this.emit('wallBounce', { side: 'left' });
       } else {
         if (this.x < -r) this.game.scorePoint(2); // Goal P2
       }
@@ -45,25 +47,31 @@ export class BallSoccer extends Base.BallBase {
       if (this.y < goalTopY) {
         this.x = Base.CONFIG.internalWidth - r;
         this.vx *= -0.8;
+        this.emit('wallBounce', { side: 'right' });
       } else {
         if (this.x > Base.CONFIG.internalWidth + r) this.game.scorePoint(1); // Goal P1
       }
     }
     
     // Crossbars
-    this.resolveCircleCollision(0, goalTopY, Base.CONFIG.SOCCER_CROSSBAR_R);
-    this.resolveCircleCollision(Base.CONFIG.internalWidth, goalTopY, Base.CONFIG.SOCCER_CROSSBAR_R);
+    if (this.resolveCircleCollision(0, goalTopY, this.rules.SOCCER_CROSSBAR_R) !== null) {
+      this.emit('crossbarHit', { side: 'left' });
+    }
+    if (this.resolveCircleCollision(Base.CONFIG.internalWidth, goalTopY, this.rules.SOCCER_CROSSBAR_R) !== null) {
+      this.emit('crossbarHit', { side: 'right' });
+    }
   }
 
   // Soccer uses the base class's generic physics for all velocity resolution.
   // BUT: we intentionally narrow the "directly on top" (header/juggle) window for soccer
   // so you can't bounce the ball on your head indefinitely.
   resolveSlimeHit(slime: Base.SlimeBase, angle: number, isStomp: boolean, dx: number): void {
-    const popForce = Base.CONFIG.popForce;
+    const popForce = this.rules.popForce;
 
     // Soccer-only: make "perfect on-head" control much harder.
-    const horizontalThreshold = Base.CONFIG.slimeRadius * 0.10; // was 0.30 in base
+    const horizontalThreshold = this.rules.slimeRadius * 0.10; // was 0.30 in base
     const isDirectlyOnTop = Math.abs(dx) < horizontalThreshold;
+    this.emit('hit', { slime, isStomp, onTop: isDirectlyOnTop });
 
     const slimeHorizontalMomentum = slime.vx * 1.25; // slightly less "stickiness" than base
 
@@ -98,18 +106,19 @@ export class BallSoccer extends Base.BallBase {
 
     // Same post-hit clamp as base
     const postHitSpeed = Math.hypot(this.vx, this.vy);
-    if (postHitSpeed > Base.CONFIG.ballMaxSpeed) {
-      const scale = Base.CONFIG.ballMaxSpeed / postHitSpeed;
+    if (postHitSpeed > this.rules.ballMaxSpeed) {
+      const scale = this.rules.ballMaxSpeed / postHitSpeed;
       this.vx *= scale;
       this.vy *= scale;
     }
   }
   
-  draw(ctx: CanvasRenderingContext2D): void {
-    const r = Base.CONFIG.ballRadius;
+  draw(ctx: CanvasRenderingContext2D, alpha: number = 1): void {
+    const r = this.rules.ballRadius;
+    const { x, y } = this.interpolatedPosition(alpha);
     // Draw common white circle
     ctx.beginPath();
-    ctx.arc(this.x, this.y, r, 0, Math.PI * 2);
+    ctx.arc(x, y, r, 0, Math.PI * 2);
     ctx.fillStyle = '#fff';
     ctx.fill();
     ctx.lineWidth = 2;
@@ -117,7 +126,7 @@ export class BallSoccer extends Base.BallBase {
     ctx.stroke();
     // Soccer detail (center dot)
     ctx.beginPath();
-    ctx.arc(this.x, this.y, r/2, 0, Math.PI*2);
+    ctx.arc(x, y, r/2, 0, Math.PI*2);
     ctx.fillStyle = '#000';
     ctx.fill();
   }
@@ -0,0 +1,72 @@
+import * as Base from '../base/index.js';
+import type { Match } from '../base/Match.js';
+import { SoccerPeriod } from './SoccerTimedRules.js';
+
+// --- GOAL CAMPING (Classic Goal-Hanging Penalty) ---
+// With rules.SOCCER_CAMP_TICKS > 0, a slime whose center stays within SOCCER_GOAL_AREA_W of its
+// own goal line fills a meter; leaving the area empties it. A full meter is a fault that concedes
+// a goal. Meters live in modeState (`camp0`, `camp1`, ... by match.slimes index) so they survive
+// world-state round trips. Off during the penalty shootout, where keepers belong on the line.
+
+export function isInOwnGoalArea(slime: Base.SlimeBase, x: number, rules: Base.RuleSet): boolean {
+  const area = rules.SOCCER_GOAL_AREA_W;
+  return slime.isPlayer1 ? x < area : x > Base.CONFIG.internalWidth - area;
+}
+
+function campKey(match: Match, slime: Base.SlimeBase): string {
+  return `camp${match.slimes.indexOf(slime)}`;
+}
+
+// Meter fill for a slime, 0 (empty) to 1 (fault)
+export function campPressure(match: Match, slime: Base.SlimeBase): number {
+  const limit = match.rules.SOCCER_CAMP_TICKS;
+  if (limit <= 0) return 0;
+  return Math.min(1, (match.modeState[campKey(match, slime)] ?? 0) / limit);
+}
+
+export function updateGoalCamping(match: Match): void {
+  const limit = match.rules.SOCCER_CAMP_TICKS;
+  if (limit <= 0 || match.isOver() || match.modeState.period === SoccerPeriod.SHOOTOUT) return;
+
+  for (const slime of match.slimes) {
+    const key = campKey(match, slime);
+    const ticks = isInOwnGoalArea(slime, slime.x, match.rules) ? (match.modeState[key] ?? 0) + 1 : 0;
+    match.modeState[key] = ticks;
+    if (ticks >= limit) {
+      const side = slime.isPlayer1 ? 1 : 2;
+      match.events.emit('fault', { side, reason: 'goalCamping' });
+      match.scorePoint(side === 1 ? 2 : 1);
+      return; // the point reset the round (and the meters)
+    }
+  }
+}
+
+export function resetCampMeters(match: Match): void {
+  match.slimes.forEach((_, i) => {
+    delete match.modeState[`camp${i}`];
+  });
+}
+
+// Warning bar above each slime with a filling meter; red once it's past half
+export function drawCampMeters(ctx: CanvasRenderingContext2D, match: Match, alpha: number): void {
+  const barW = 60;
+  const barH = 6;
+  ctx.save();
+  for (const slime of match.slimes) {
+    const pressure = campPressure(match, slime);
+    if (pressure <= 0) continue;
+    const pos = slime.interpolatedPosition(alpha);
+    const x = pos.x - barW / 2;
+    const y = pos.y - match.rules.slimeRadius - 36;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.4)';
+    ctx.fillRect(x, y, barW, barH);
+    ctx.fillStyle = pressure > 0.5 ? '#e74c3c' : '#f1c40f';
+    ctx.fillRect(x, y, barW * pressure, barH);
+    if (pressure > 0.5) {
+      ctx.font = 'bold 14px Inter';
+      ctx.textAlign = 'center';
+      ctx.fillText('LEAVE THE BOX!', pos.x, y - 6);
+    }
+  }
+  ctx.restore();
+}
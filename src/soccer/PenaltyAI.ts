@@ -0,0 +1,87 @@
+import * as Base from '../base/index.js';
+import * as AI from '../ai/index.js';
+import type { Match } from '../base/Match.js';
+import { SOCCER_ROLLOUT } from './SoccerRollout.js';
+import { shootoutRole } from './SoccerTimedRules.js';
+
+// Penalty shootout play for either side. Like SoccerAI it reasons in its SideFrame: it shoots at
+// the left goal and keeps the right one. Same rollout idea as SoccerAI: try a few inputs with the
+// real physics and score the outcomes.
+// - Shooter: get behind the ball and drive it into the left goal before the kick times out.
+// - Keeper: hold the line between ball and goal, jumping only when a shot is on.
+// - Bench: stay out of the way.
+export class PenaltyAI extends AI.AIBase {
+  private input = new AI.VirtualInput();
+  private rollout = new AI.RolloutSimulator(SOCCER_ROLLOUT, this.rules);
+  private readonly horizon = this.scaledHorizon(90);
+
+  constructor(
+    rules: Base.RuleSet,
+    private readonly match: Match,
+    difficulty?: AI.AIDifficulty,
+    seed?: number
+  ) {
+    super(rules, difficulty, seed);
+  }
+
+  // Whether the match is in a shootout (otherwise normal play applies)
+  isActive(slime: Base.SlimeBase): boolean {
+    return shootoutRole(this.match, slime) !== null;
+  }
+
+  getInput(slime: Base.SlimeBase, ball: Base.BallBase, opponent: Base.SlimeBase, opponentInput: Base.InputSource): Base.InputSource {
+    this.input.clear();
+    const role = shootoutRole(this.match, slime);
+    if (role === null || role === 'bench') return this.input;
+    ball = this.perceive(ball);
+
+    const groundY = Base.CONFIG.internalHeight - Base.CONFIG.groundHeight;
+    const frame = new AI.SideFrame(slime);
+    const snapshot = frame.snapshot(slime, opponent, ball);
+    const opponentPlan = AI.planFromInput(opponentInput, opponent.bindings);
+
+    const canJump = slime.y >= groundY && Math.hypot(ball.x - slime.x, ball.y - slime.y) < 160;
+    const actions: AI.MoveAction[] = ['LEFT', 'RIGHT', 'NONE'];
+    const candidates: AI.PlayerPlan[] = actions.map((action) => ({ action, jumpOnStep0: false, grabOrThrowOnStep0: false }));
+    if (canJump) {
+      for (const action of actions) candidates.push({ action, jumpOnStep0: true, grabOrThrowOnStep0: false });
+    }
+
+    let best = candidates[0];
+    let bestScore = -Infinity;
+    for (const c of this.withinBudget(candidates)) {
+      const res = this.rollout.run(snapshot, this.horizon, frame.plans(c, opponentPlan), frame.side);
+      const end = frame.view(res.end);
+      let score = role === 'shooter' ? this.shooterScore(res, end) : this.keeperScore(res, end);
+      if (c.jumpOnStep0) score -= 40; // don't spam jumps
+      if (score > bestScore) {
+        bestScore = score;
+        best = c;
+      }
+    }
+
+    const move = frame.action(best.action);
+    this.input.setKey(slime.bindings.left, move === 'LEFT');
+    this.input.setKey(slime.bindings.right, move === 'RIGHT');
+    this.input.setKey(slime.bindings.jump, best.jumpOnStep0);
+    return this.input;
+  }
+
+  private shooterScore(res: AI.RolloutResult<AI.NoMetrics>, end: AI.FramedState): number {
+    if (res.verdict === 'win') return 100_000 - (res.step ?? this.horizon);
+    if (res.verdict === 'loss') return -100_000;
+    // Ball further left and moving left, kicker just behind (right of) it
+    let score = -end.ball.x * 0.5 - end.ball.vx * 60;
+    score -= Math.abs(end.self.x - (end.ball.x + 45)) * 3;
+    return score;
+  }
+
+  private keeperScore(res: AI.RolloutResult<AI.NoMetrics>, end: AI.FramedState): number {
+    if (res.verdict === 'loss') return -1_000_000 + (res.step ?? this.horizon);
+    if (res.verdict === 'win') return 10_000;
+    const W = Base.CONFIG.internalWidth;
+    // Guard just goal-side of the ball, without leaving the box
+    const guardX = Math.max(W * 0.7, Math.min(W - this.rules.slimeRadius - 10, end.ball.x + 30));
+    return -Math.abs(end.self.x - guardX) * 2 - end.ball.vx * 50;
+  }
+}
@@ -1,17 +1,28 @@
 import * as Base from '../base/index.js';
 import * as AI from '../ai/index.js';
-import { SoccerRolloutSimulator, type SoccerWorldSnapshot, type P2Action } from './SoccerRolloutSimulator.js';
-import { planFromInput } from '../ai/UserIntent.js';
+import type { Match } from '../base/Match.js';
+import { SOCCER_ROLLOUT } from './SoccerRollout.js';
+import { PenaltyAI } from './PenaltyAI.js';
+import { campPressure, isInOwnGoalArea } from './GoalCamping.js';
 
 type MoveDir = -1 | 0 | 1;
 type Mode = 'DEFEND' | 'ATTACK' | 'CONTEST';
 
-// Soccer-specific AI:
+// Soccer-specific AI (either side; reasons in its SideFrame, so "left" is toward the opponent's goal):
 // - If "in control": get behind the ball and strike toward opponent goal (left).
 // - If not: defend own goal (right), block shots, and clear.
+// - In a penalty shootout (timed matches, given the match): hands over to PenaltyAI.
+// - With the goal-camping rule (given the match): leaves its goal area before the meter fills.
+// - The difficulty sets how late and how accurately it sees the ball, how far its rollouts look,
+//   how many plans they try and how deep it searches move sequences (PlanSearch), and its strike
+//   cooldown (the shootout is always played at full strength).
 export class SoccerAI extends AI.AIBase {
   private input = new AI.VirtualInput();
-  private rollout = new SoccerRolloutSimulator();
+  private rollout = new AI.RolloutSimulator(SOCCER_ROLLOUT, this.rules);
+  private search = new AI.PlanSearch(this.rollout, this.difficulty.planSearch);
+  // Best plan of the last decision and its tick (warm-starts the next search)
+  private lastPlan: { plan: AI.InputPlan; tick: number } | null = null;
+  private readonly penalty: PenaltyAI | null;
   private tick = 0;
 
   private moveDir: MoveDir = 0;
@@ -26,19 +37,39 @@ export class SoccerAI extends AI.AIBase {
   private readonly dirSwitchDebounceTicks = 8; // ~133ms @ 60Hz
 
   // "Touch" heuristics (used for striking/jumping decisions)
-  private readonly touchDist = Base.CONFIG.slimeRadius + Base.CONFIG.ballRadius + 18;
+  private readonly touchDist = this.rules.slimeRadius + this.rules.ballRadius + 18;
   private readonly touchMaxBallHeight = 175; // px above ground
   private readonly maxTouchHoldMs = 900; // don't juggle forever
   private readonly maxTouchHoldTicks = 54; // ~900ms @ 60Hz
-  private readonly strikeCooldownTicks = 33; // ~550ms @ 60Hz
+  private readonly strikeCooldownTicks = this.scaledCooldown(33); // ~550ms @ 60Hz at Normal
 
   private readonly velAmbiguous = 0.35; // px/tick-ish (game units per update)
   private readonly closerMargin = 6; // px (avoid flip-flopping when equal)
+  private readonly campPressureLimit = 0.4; // camp meter fill at which we start leaving the box
+
+  constructor(
+    rules: Base.RuleSet,
+    private readonly match: Match | null = null,
+    difficulty?: AI.AIDifficulty,
+    seed?: number
+  ) {
+    super(rules, difficulty, seed);
+    this.penalty = match ? new PenaltyAI(rules, match, difficulty, seed) : null;
+  }
 
   getInput(slime: Base.SlimeBase, ball: Base.BallBase, opponent: Base.SlimeBase, opponentInput: Base.InputSource): Base.InputSource {
+    if (this.penalty?.isActive(slime)) return this.penalty.getInput(slime, ball, opponent, opponentInput);
+    ball = this.perceive(ball);
+
     this.tick++;
     const tick = this.tick;
 
+    // Ball and own position in our side's frame
+    const frame = new AI.SideFrame(slime);
+    const ballX = frame.x(ball.x);
+    const ballVx = frame.vx(ball.vx);
+    const selfX = frame.x(slime.x);
+
     const groundY = Base.CONFIG.internalHeight - Base.CONFIG.groundHeight;
     const ballHeightAboveGround = groundY - ball.y;
 
@@ -49,8 +80,8 @@ export class SoccerAI extends AI.AIBase {
     // - If ball moving left AND AI closer than player => AI is "in control" (attack)
     // - If ball moving right AND player closer than AI => defend
     // - Otherwise => ambiguous => contest (try to gain control)
-    const ballMovingLeft = ball.vx < -this.velAmbiguous;
-    const ballMovingRight = ball.vx > this.velAmbiguous;
+    const ballMovingLeft = ballVx < -this.velAmbiguous;
+    const ballMovingRight = ballVx > this.velAmbiguous;
     const aiCloser = (selfDist + this.closerMargin) < oppDist;
     const playerCloser = (oppDist + this.closerMargin) < selfDist;
 
@@ -58,23 +89,19 @@ export class SoccerAI extends AI.AIBase {
     // - Chase the ball no matter what (CONTEST baseline)
     // - Only DEFEND when we're already between our goal (right) and the ball (i.e. to the right of the ball),
     //   AND the ball is unambiguously dangerous (moving right) or a neutral rollout predicts we concede soon.
-    const betweenOwnGoalAndBallNow = slime.x > (ball.x + 8);
+    const betweenOwnGoalAndBallNow = selfX > (ballX + 8);
 
     // "Likely to score" check (still input-based): if we do nothing for a short horizon,
     // do we concede? This captures weird bounces (e.g., crossbar) without any ball-oracle.
-    const neutralSnapshot: SoccerWorldSnapshot = {
-      p1: { x: opponent.x, y: opponent.y, vx: opponent.vx, vy: opponent.vy },
-      p2: { x: slime.x, y: slime.y, vx: slime.vx, vy: slime.vy },
-      ball: { x: ball.x, y: ball.y, vx: ball.vx, vy: ball.vy },
-    };
-    const p1Plan = planFromInput(opponentInput, true);
+    const neutralSnapshot = frame.snapshot(slime, opponent, ball);
+    const opponentPlan = AI.planFromInput(opponentInput, opponent.bindings);
     // Use a longer horizon when the ball is already traveling toward our goal.
-    const neutralHorizon = ballMovingRight ? 140 : 45;
-    const neutralOutcome = this.rollout.simulate(
+    const neutralHorizon = this.scaledHorizon(ballMovingRight ? 140 : 45);
+    const neutralOutcome = this.rollout.run(
       neutralSnapshot,
       neutralHorizon,
-      { action: 'NONE', jumpOnStep0: false },
-      { p1Plan: { action: p1Plan.action, jumpOnStep0: p1Plan.jumpOnStep0 } }
+      frame.plans({ action: 'NONE', jumpOnStep0: false, grabOrThrowOnStep0: false }, opponentPlan),
+      frame.side
     );
     const likelyConcedeSoon = neutralOutcome.verdict === 'loss';
 
@@ -92,19 +119,21 @@ export class SoccerAI extends AI.AIBase {
     }
 
     // --- Choose a horizontal target ---
-    // P2 attacks left goal, defends right goal.
+    // In our frame we attack the left goal and defend the right one.
     const ownGoalX = Base.CONFIG.internalWidth;
     const opponentGoalX = 0;
 
-    let targetX = slime.x;
+    let targetX = selfX;
 
     if (mode === 'DEFEND') {
       // Keep yourself between ball and your goal, but don't camp fully inside goal.
       // Also bias slightly behind the ball (toward own goal) to block shots.
       // IMPORTANT: don't run away from the ball; stay close enough to contest and clear.
-      const closeBehind = ball.x + (ball.x > Base.CONFIG.internalWidth * 0.82 ? 35 : 65);
+      const closeBehind = ballX + (ballX > Base.CONFIG.internalWidth * 0.82 ? 35 : 65);
       const minX = Base.CONFIG.internalWidth * 0.52;
-      const maxX = ownGoalX - Base.CONFIG.slimeRadius - 20;
+      const maxX = this.mustLeaveBox(slime)
+        ? ownGoalX - this.rules.SOCCER_GOAL_AREA_W - 20
+        : ownGoalX - this.rules.slimeRadius - 20;
       targetX = clamp(closeBehind, minX, maxX);
     } else {
       // ATTACK/CONTEST:
@@ -113,14 +142,14 @@ export class SoccerAI extends AI.AIBase {
       // If ball is moving toward our goal, don't run behind it (that tends to push it right).
       // Instead, get to the RIGHT of it so any contact tends to push it LEFT (away from our goal).
       if (ballMovingRight) {
-        targetX = ball.x + 55;
+        targetX = ballX + 55;
       } else {
         const behindBallOffset = mode === 'ATTACK' ? 70 : 45;
-        targetX = ball.x + behindBallOffset;
+        targetX = ballX + behindBallOffset;
       }
 
       // Don't overrun into the left wall.
-      targetX = clamp(targetX, Base.CONFIG.slimeRadius + 10, ownGoalX - Base.CONFIG.slimeRadius - 10);
+      targetX = clamp(targetX, this.rules.slimeRadius + 10, ownGoalX - this.rules.slimeRadius - 10);
     }
 
     // --- Decide strike/jump ---
@@ -131,33 +160,33 @@ export class SoccerAI extends AI.AIBase {
     const shouldForceStrike = canTouchBall && timeTouchingTicks >= this.maxTouchHoldTicks && canStrike;
 
     // Shot opportunity: ball is near our front and not too high.
-    const ballInFrontForShot = ball.x < slime.x - 10 && ballHeightAboveGround <= 140;
+    const ballInFrontForShot = ballX < selfX - 10 && ballHeightAboveGround <= 140;
     const shouldTakeShot = canTouchBall && canStrike && ballInFrontForShot && mode !== 'DEFEND';
 
     // Defensive block: ball moving toward our goal and approaching our box.
-    const ballThreateningGoal = ball.vx > 1.2 && ball.x > Base.CONFIG.internalWidth * 0.62 && ballHeightAboveGround <= 170;
-    const shouldBlock = mode === 'DEFEND' && ballThreateningGoal && Math.abs(ball.x - slime.x) < 55 && canStrike;
+    const ballThreateningGoal = ballVx > 1.2 && ballX > Base.CONFIG.internalWidth * 0.62 && ballHeightAboveGround <= 170;
+    const shouldBlock = mode === 'DEFEND' && ballThreateningGoal && Math.abs(ballX - selfX) < 55 && canStrike;
 
     const doJump = (shouldForceStrike || shouldTakeShot || shouldBlock) && slime.y >= groundY;
     let willJump = doJump;
 
     // If we're striking, bias targetX to "step into" the ball right before the jump.
     if ((shouldForceStrike || shouldTakeShot) && canTouchBall && willJump) {
-      targetX = ball.x + 40;
+      targetX = ballX + 40;
     }
 
     // Input-based rollout:
     // Try a few candidate actions (and optional jump) and pick the one that
     // does NOT concede and (ideally) scores.
     // This uses the real game physics and only varies inputs.
-    const plan = this.pickPlanByRollout(slime, opponent, ball, mode, willJump, p1Plan);
+    const plan = this.pickPlanByRollout(frame, slime, opponent, ball, mode, willJump, opponentPlan);
     if (plan.jumpOnStep0 && slime.y >= groundY && canStrike) {
       // spend our strike "cooldown" only when we actually jump
       this.lastStrikeTick = tick;
     }
 
     // --- Convert to virtual keys with hysteresis + debounce ---
-    const errorX = targetX - slime.x;
+    const errorX = targetX - selfX;
     const absErrorX = Math.abs(errorX);
 
     // stop
@@ -182,146 +211,164 @@ export class SoccerAI extends AI.AIBase {
 
     this.input.clear();
 
-    // P2 controls
     // Use the rollout's chosen direction immediately (overrides hysteresis when needed).
     // This keeps behavior consistent with the simulated plan.
-    this.input.setKey('ArrowRight', plan.action === 'RIGHT');
-    this.input.setKey('ArrowLeft', plan.action === 'LEFT');
-    this.input.setKey('ArrowUp', plan.jumpOnStep0 && slime.y >= groundY);
+    const move = frame.action(plan.action);
+    this.input.setKey(slime.bindings.right, move === 'RIGHT');
+    this.input.setKey(slime.bindings.left, move === 'LEFT');
+    this.input.setKey(slime.bindings.jump, plan.jumpOnStep0 && slime.y >= groundY);
+    this.input.setKey(slime.bindings.grab, plan.grabOrThrowOnStep0);
 
     return this.input;
   }
 
   private pickPlanByRollout(
+    frame: AI.SideFrame,
     slime: Base.SlimeBase,
     opponent: Base.SlimeBase,
     ball: Base.BallBase,
     mode: Mode,
     prefersJump: boolean,
-    p1Plan: ReturnType<typeof planFromInput>
-  ): { action: P2Action; jumpOnStep0: boolean } {
-    const snapshot: SoccerWorldSnapshot = {
-      p1: { x: opponent.x, y: opponent.y, vx: opponent.vx, vy: opponent.vy },
-      p2: { x: slime.x, y: slime.y, vx: slime.vx, vy: slime.vy },
-      ball: { x: ball.x, y: ball.y, vx: ball.vx, vy: ball.vy },
-    };
+    opponentPlan: AI.PlayerPlan
+  ): AI.PlayerPlan {
+    const snapshot = frame.snapshot(slime, opponent, ball);
+    const start = frame.view(snapshot);
 
     // Candidate plans: purely input-based.
-    const candidates: Array<{ action: P2Action; jumpOnStep0: boolean }> = [
-      { action: 'LEFT', jumpOnStep0: false },
-      { action: 'RIGHT', jumpOnStep0: false },
-      { action: 'NONE', jumpOnStep0: false },
+    const candidates: Array<AI.PlayerPlan> = [
+      { action: 'LEFT', jumpOnStep0: false, grabOrThrowOnStep0: false },
+      { action: 'RIGHT', jumpOnStep0: false, grabOrThrowOnStep0: false },
+      { action: 'NONE', jumpOnStep0: false, grabOrThrowOnStep0: false },
     ];
 
     // Only add jump variants when we intend to strike/block (keeps AI from spam-jumping)
     if (prefersJump) {
-      candidates.push({ action: 'LEFT', jumpOnStep0: true });
-      candidates.push({ action: 'RIGHT', jumpOnStep0: true });
-      candidates.push({ action: 'NONE', jumpOnStep0: true });
+      candidates.push({ action: 'LEFT', jumpOnStep0: true, grabOrThrowOnStep0: false });
+      candidates.push({ action: 'RIGHT', jumpOnStep0: true, grabOrThrowOnStep0: false });
+      candidates.push({ action: 'NONE', jumpOnStep0: true, grabOrThrowOnStep0: false });
+    }
+
+    // Grab/throw variants: throw a held ball (in the direction we move), or try to catch a close one
+    if (this.grabIsRelevant(slime, ball, opponent)) {
+      candidates.push({ action: 'LEFT', jumpOnStep0: false, grabOrThrowOnStep0: true });
+      candidates.push({ action: 'RIGHT', jumpOnStep0: false, grabOrThrowOnStep0: true });
+      candidates.push({ action: 'NONE', jumpOnStep0: false, grabOrThrowOnStep0: true });
     }
 
-    const ballMovingRightNow = ball.vx > this.velAmbiguous;
-    const ballMovingLeftNow = ball.vx < -this.velAmbiguous;
-    const ballBehindNow = snapshot.ball.x > snapshot.p2.x + 6;
+    const ballMovingRightNow = start.ball.vx > this.velAmbiguous;
+    const ballMovingLeftNow = start.ball.vx < -this.velAmbiguous;
+    const ballBehindNow = start.ball.x > start.self.x + 6;
     const groundY = Base.CONFIG.internalHeight - Base.CONFIG.groundHeight;
-    const ballIsInAirNow = snapshot.ball.y < (groundY - 60);
-    const ballIsLowNow = snapshot.ball.y > (groundY - 40);
-    const ballIsLeftOfP2Now = snapshot.ball.x < snapshot.p2.x - 10;
-    const overheadToOwnGoalCase = ballMovingRightNow && ballIsInAirNow && ballIsLeftOfP2Now && !ballBehindNow;
+    const ballIsInAirNow = start.ball.y < (groundY - 60);
+    const ballIsLowNow = start.ball.y > (groundY - 40);
+    const ballIsLeftOfUsNow = start.ball.x < start.self.x - 10;
+    const overheadToOwnGoalCase = ballMovingRightNow && ballIsInAirNow && ballIsLeftOfUsNow && !ballBehindNow;
 
     // Rollout horizon: short & local by default, but longer when we're in danger of conceding.
     // This fixes cases where a high lob is "inevitably" going in but takes >1s to cross the line.
-    const horizon = overheadToOwnGoalCase ? 170 : (ballMovingRightNow ? 130 : 60);
+    const horizon = this.scaledHorizon(overheadToOwnGoalCase ? 170 : (ballMovingRightNow ? 130 : 60));
 
     // Hard input-based override for the problematic case:
     // If the ball is high, moving toward our goal, and still left of us, moving LEFT is almost always wrong.
     // We need to get under it by moving RIGHT.
     if (overheadToOwnGoalCase) {
-      return { action: 'RIGHT', jumpOnStep0: false };
+      return { action: 'RIGHT', jumpOnStep0: false, grabOrThrowOnStep0: false };
     }
 
-    let best = candidates[0];
-    let bestScore = -Infinity;
-
-    for (const c of candidates) {
-      const res = this.rollout.simulate(snapshot, horizon, c, {
-        p1Plan: { action: p1Plan.action, jumpOnStep0: p1Plan.jumpOnStep0 }
-      });
-
-      // Hard constraints: don't concede if avoidable
-      if (res.verdict === 'loss') {
-        // still allow in extreme cases, but heavily penalize
-        let score = -1_000_000 + (res.step ?? horizon);
-        // Tie-breaker: if all options lead to a loss (e.g. ball flying over head),
-        // prefer the one that keeps us closer to the ball (chasing) rather than drifting away.
-        score -= Math.abs(res.end.ball.x - res.end.p2.x) * 0.1;
-        
-        if (score > bestScore) { bestScore = score; best = c; }
-        continue;
-      }
-
-      let score = 0;
-      if (res.verdict === 'win') {
-        score += 100_000 - (res.step ?? horizon);
-      } else {
-        // No goal: prefer ball moving left and away from our goal
-        score += (-res.end.ball.vx) * 200;
-        score += (Base.CONFIG.internalWidth - res.end.ball.x) * 0.3; // ball more left is better
-      }
+    // Goal camping: ending the rollout still inside our goal area costs more the fuller the meter
+    const pressure = this.match && this.mustLeaveBox(slime) ? campPressure(this.match, slime) : 0;
+
+    const result = this.search.search({
+      snapshot,
+      horizon,
+      frame,
+      opponentPlan,
+      firstMoves: this.withinBudget(candidates),
+      warmStart: this.lastPlan?.tick === this.tick - 1 ? AI.shiftPlan(this.lastPlan.plan) : null,
+      evaluate: (res, plan) => {
+        // Directional terms judge the move made now; every planned jump costs a little
+        const c = AI.firstMove(plan);
+        const end = frame.view(res.end);
+        const campCost = pressure > 0 && isInOwnGoalArea(slime, frame.x(end.self.x), this.rules) ? 20_000 * pressure : 0;
+
+        // Hard constraints: don't concede if avoidable
+        if (res.verdict === 'loss') {
+          // still allow in extreme cases, but heavily penalize
+          let score = -1_000_000 + (res.step ?? horizon);
+          // Tie-breaker: if all options lead to a loss (e.g. ball flying over head),
+          // prefer the one that keeps us closer to the ball (chasing) rather than drifting away.
+          score -= Math.abs(end.ball.x - end.self.x) * 0.1;
+          score -= campCost;
+          return score;
+        }
 
-      // Always value "getting to the ball" (prevents running away when it goes behind you).
-      // Stronger than before so "chase no matter what" wins over minor heuristics.
-      score -= Math.abs(res.end.ball.x - res.end.p2.x) * 4.0;
+        let score = 0;
+        if (res.verdict === 'win') {
+          score += 100_000 - (res.step ?? horizon);
+        } else {
+          // No goal: prefer ball moving left and away from our goal
+          score += (-end.ball.vx) * 200;
+          score += (Base.CONFIG.internalWidth - end.ball.x) * 0.3; // ball more left is better
+        }
 
-      // If the ball is currently behind us, heavily penalize choosing LEFT (running further away).
-      if (ballBehindNow && c.action === 'LEFT') {
-        score -= 1200;
-      }
+        // Always value "getting to the ball" (prevents running away when it goes behind you).
+        // Stronger than before so "chase no matter what" wins over minor heuristics.
+        score -= Math.abs(end.ball.x - end.self.x) * 4.0;
 
-      // Corner case: ball is traveling RIGHT, currently LEFT of us, and high in the air.
-      // Chasing left "to meet it" is a trap — it will often fly over our head and end up behind us,
-      // after which we concede. Prefer moving RIGHT underneath the flight path.
-      if (overheadToOwnGoalCase) {
-        if (c.action === 'LEFT') score -= 1800;
-        if (c.action === 'RIGHT') score += 520;
-        if (c.action === 'NONE') score += 120;
-      }
+        // If the ball is currently behind us, heavily penalize choosing LEFT (running further away).
+        if (ballBehindNow && c.action === 'LEFT') {
+          score -= 1200;
+        }
 
-      // If the ball is currently moving toward our goal (right), strongly prefer ending up to the
-      // RIGHT of the ball (so contacts push it LEFT and we don't own-goal).
-      if (ballMovingRightNow) {
-        // Reward being between ball and our goal
-        score += Math.max(0, res.end.p2.x - res.end.ball.x) * 10;
-        // Penalize failing to get behind
-        score -= Math.max(0, res.end.ball.x - res.end.p2.x) * 22;
-
-        // If ball is in the air: prefer moving underneath it (x-align) while staying behind
-        if (ballIsInAirNow) {
-          score -= Math.abs(res.end.ball.x - res.end.p2.x) * 3.0;
+        // Corner case: ball is traveling RIGHT, currently LEFT of us, and high in the air.
+        // Chasing left "to meet it" is a trap — it will often fly over our head and end up behind us,
+        // after which we concede. Prefer moving RIGHT underneath the flight path.
+        if (overheadToOwnGoalCase) {
+          if (c.action === 'LEFT') score -= 1800;
+          if (c.action === 'RIGHT') score += 520;
+          if (c.action === 'NONE') score += 120;
         }
 
-        // If ball is low/on ground: jumping can help "hop over" to get behind
-        if (ballIsLowNow && c.jumpOnStep0) {
-          score += 180;
+        // If the ball is currently moving toward our goal (right), strongly prefer ending up to the
+        // RIGHT of the ball (so contacts push it LEFT and we don't own-goal).
+        if (ballMovingRightNow) {
+          // Reward being between ball and our goal
+          score += Math.max(0, end.self.x - end.ball.x) * 10;
+          // Penalize failing to get behind
+          score -= Math.max(0, end.ball.x - end.self.x) * 22;
+
+          // If ball is in the air: prefer moving underneath it (x-align) while staying behind
+          if (ballIsInAirNow) {
+            score -= Math.abs(end.ball.x - end.self.x) * 3.0;
+          }
+
+          // If ball is low/on ground: jumping can help "hop over" to get behind
+          if (ballIsLowNow && c.jumpOnStep0) {
+            score += 180;
+          }
         }
-      }
 
-      // Only penalize drifting right when we're truly attacking and the ball is moving left.
-      // (This avoids the "keeps moving left away from the ball" bug when it's actually behind/right.)
-      if (mode === 'ATTACK' && ballMovingLeftNow) {
-        score -= Math.max(0, res.end.p2.x - snapshot.p2.x) * 4;
-      }
+        // Only penalize drifting right when we're truly attacking and the ball is moving left.
+        // (This avoids the "keeps moving left away from the ball" bug when it's actually behind/right.)
+        if (mode === 'ATTACK' && ballMovingLeftNow) {
+          score -= Math.max(0, end.self.x - start.self.x) * 4;
+        }
 
-      // Mild jump cost (don’t spam)
-      if (c.jumpOnStep0) score -= 40;
+        // Mild jump cost (don’t spam)
+        score -= 40 * AI.countJumps(plan);
+        if (c.grabOrThrowOnStep0) score -= 30;
+        score -= campCost;
+        return score;
+      },
+    });
 
-      if (score > bestScore) {
-        bestScore = score;
-        best = c;
-      }
-    }
+    this.lastPlan = result && { plan: result.plan, tick: this.tick };
+    return result?.first ?? candidates[0];
+  }
 
-    return best;
+  // Camp meter past the limit (only known when created with the match)
+  private mustLeaveBox(slime: Base.SlimeBase): boolean {
+    return this.match !== null && campPressure(this.match, slime) >= this.campPressureLimit;
   }
 }
 
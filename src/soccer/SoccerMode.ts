@@ -0,0 +1,66 @@
+import * as Base from '../base/index.js';
+import { SlimeSoccer } from './SlimeSoccer.js';
+import { BallSoccer } from './BallSoccer.js';
+import { SoccerAI } from './SoccerAI.js';
+import {
+  createSoccerState, onSoccerStep, checkSoccerWinner, handleSoccerPoint, placeSoccerRound,
+  soccerScoreDisplay, soccerResultText,
+} from './SoccerTimedRules.js';
+import { updateGoalCamping, resetCampMeters, drawCampMeters } from './GoalCamping.js';
+
+function drawSoccerGoals(ctx: CanvasRenderingContext2D, groundY: number, rules: Base.RuleSet): void {
+  const goalH = rules.SOCCER_GOAL_H;
+  const crossR = rules.SOCCER_CROSSBAR_R;
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.5)';
+  // Left Goal Post/Net
+  ctx.fillRect(0, groundY - goalH, 20, goalH);
+  ctx.fillStyle = '#ecf0f1';
+  ctx.beginPath();
+  ctx.arc(0, groundY - goalH, crossR, 0, Math.PI*2);
+  ctx.fill();
+  ctx.stroke();
+  // Right Goal Post/Net
+  ctx.fillRect(Base.CONFIG.internalWidth - 20, groundY - goalH, 20, goalH);
+  ctx.beginPath();
+  ctx.arc(Base.CONFIG.internalWidth, groundY - goalH, crossR, 0, Math.PI*2);
+  ctx.fill();
+  ctx.stroke();
+
+  // Goal area lines (goal-camping rule)
+  if (rules.SOCCER_CAMP_TICKS > 0) {
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+    ctx.fillRect(rules.SOCCER_GOAL_AREA_W - 2, groundY, 4, Base.CONFIG.groundHeight);
+    ctx.fillRect(Base.CONFIG.internalWidth - rules.SOCCER_GOAL_AREA_W - 2, groundY, 4, Base.CONFIG.groundHeight);
+  }
+}
+
+// --- SLIME SOCCER MODE ---
+// Kickoff from center after every goal; first to winningScore, or timed halves with golden goal
+// and penalties when rules.SOCCER_HALF_TICKS is set (see SoccerTimedRules). Optional goal-camping
+// penalty (see GoalCamping).
+export const SOCCER_MODE: Base.GameModeDefinition = {
+  id: 'SOCCER',
+  name: 'Slime Soccer',
+  emoji: '⚽',
+  SlimeClass: SlimeSoccer,
+  BallClass: BallSoccer,
+  drawArena: drawSoccerGoals,
+  drawOverlay: drawCampMeters,
+  servingSlime: () => null,
+  nextServer: (match) => match.server as 1 | 2,
+  checkWinner: checkSoccerWinner,
+  createModeState: createSoccerState,
+  handlePoint: handleSoccerPoint,
+  onStep: (match) => {
+    updateGoalCamping(match);
+    onSoccerStep(match);
+  },
+  onRoundReset: (match) => {
+    resetCampMeters(match);
+    placeSoccerRound(match);
+  },
+  scoreDisplay: soccerScoreDisplay,
+  resultText: soccerResultText,
+  createAI: (rules, match, difficulty, seed) => new SoccerAI(rules, match, difficulty, seed),
+};
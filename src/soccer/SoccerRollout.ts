@@ -0,0 +1,12 @@
+import type * as AI from '../ai/index.js';
+import { SlimeSoccer } from './SlimeSoccer.js';
+import { BallSoccer } from './BallSoccer.js';
+
+// Soccer rollouts: a goal ends the rollout (a goal for the perspective player is a 'win').
+// No extra metrics: the AI scores end states directly.
+export const SOCCER_ROLLOUT: AI.RolloutMode<AI.NoMetrics> = {
+  SlimeClass: SlimeSoccer,
+  BallClass: BallSoccer,
+  createMetrics: () => ({}),
+  updateMetrics: () => {},
+};
@@ -0,0 +1,186 @@
+import * as Base from '../base/index.js';
+import type { Match } from '../base/Match.js';
+
+// Periods of a timed match, stored as modeState.period
+export const SoccerPeriod = {
+  FIRST_HALF: 0,
+  SECOND_HALF: 1,
+  OVERTIME: 2,
+  SHOOTOUT: 3,
+} as const;
+
+export type ShootoutRole = 'shooter' | 'keeper' | 'bench';
+
+// --- TIMED SOCCER (Halves → Golden Goal → Penalty Shootout) ---
+// Active when rules.SOCCER_HALF_TICKS > 0. Goals don't end regulation, the clock does: a lead
+// wins, a draw goes to golden-goal overtime and then to penalties (best of SOCCER_SHOOTOUT_KICKS
+// each, then sudden death). modeState holds the period and the shootout tally.
+export function isTimedSoccer(rules: Base.RuleSet): boolean {
+  return rules.SOCCER_HALF_TICKS > 0;
+}
+
+export function createSoccerState(): Base.ModeState {
+  return { period: SoccerPeriod.FIRST_HALF, periodStartTick: 0, shooter: 1, kicks1: 0, kicks2: 0, pens1: 0, pens2: 0 };
+}
+
+function periodLength(match: Match): number {
+  const period = match.modeState.period;
+  if (period === SoccerPeriod.OVERTIME) return match.rules.SOCCER_OVERTIME_TICKS;
+  if (period === SoccerPeriod.SHOOTOUT) return match.rules.SOCCER_KICK_TICKS;
+  return match.rules.SOCCER_HALF_TICKS;
+}
+
+// Ticks left in the current period (or in the current penalty kick)
+function ticksLeft(match: Match): number {
+  return Math.max(0, periodLength(match) - (match.clock.tick - match.modeState.periodStartTick));
+}
+
+function startPeriod(match: Match, period: number, name: Base.GameEvents['periodStart']['period']): void {
+  match.modeState.period = period;
+  match.modeState.periodStartTick = match.clock.tick;
+  match.events.emit('periodStart', { period: name });
+  match.resetRound();
+}
+
+// End of regulation: a lead wins, a draw goes to overtime (or straight to penalties)
+function endRegulation(match: Match): void {
+  if (match.score1 !== match.score2) {
+    match.endMatch(match.score1 > match.score2 ? 1 : 2);
+  } else if (match.rules.SOCCER_OVERTIME_TICKS > 0) {
+    startPeriod(match, SoccerPeriod.OVERTIME, 'overtime');
+  } else {
+    startPeriod(match, SoccerPeriod.SHOOTOUT, 'shootout');
+  }
+}
+
+export function onSoccerStep(match: Match): void {
+  if (!isTimedSoccer(match.rules) || match.isOver() || ticksLeft(match) > 0) return;
+
+  switch (match.modeState.period) {
+    case SoccerPeriod.FIRST_HALF:
+      startPeriod(match, SoccerPeriod.SECOND_HALF, 'secondHalf');
+      break;
+    case SoccerPeriod.SECOND_HALF:
+      endRegulation(match);
+      break;
+    case SoccerPeriod.OVERTIME:
+      startPeriod(match, SoccerPeriod.SHOOTOUT, 'shootout');
+      break;
+    case SoccerPeriod.SHOOTOUT:
+      recordKick(match, false); // out of time: a miss
+      break;
+  }
+}
+
+// Regulation goals never decide a timed match; any overtime goal does (scores were level).
+export function checkSoccerWinner(match: Match): 1 | 2 | null {
+  if (!isTimedSoccer(match.rules)) return Base.firstToWinningScore(match);
+  if (match.modeState.period !== SoccerPeriod.OVERTIME || match.score1 === match.score2) return null;
+  return match.score1 > match.score2 ? 1 : 2;
+}
+
+// --- PENALTY SHOOTOUT ---
+// Each side shoots at the other side's goal (as in open play), kickers rotating through the team,
+// against the other team's captain in goal. Everyone else waits at the kicker's end.
+
+// Shootout goals don't touch score1/score2: the ball crossing the keeper's line scores,
+// anything else (own goal, clearance into the kicker's goal) is a miss.
+export function handleSoccerPoint(match: Match, scoringPlayer: 1 | 2): boolean {
+  if (match.modeState.period !== SoccerPeriod.SHOOTOUT) return false;
+  recordKick(match, scoringPlayer === match.modeState.shooter);
+  return true;
+}
+
+function recordKick(match: Match, scored: boolean): void {
+  const s = match.modeState;
+  const shooter = s.shooter as 1 | 2;
+  s[`kicks${shooter}`]++;
+  if (scored) s[`pens${shooter}`]++;
+  match.events.emit('penaltyKick', { shooter, scored, pens1: s.pens1, pens2: s.pens2 });
+
+  const winner = shootoutWinner(s, match.rules.SOCCER_SHOOTOUT_KICKS);
+  if (winner !== null) {
+    match.endMatch(winner);
+    return;
+  }
+  s.shooter = shooter === 1 ? 2 : 1;
+  s.periodStartTick = match.clock.tick;
+  match.resetRound();
+}
+
+// Decided once one side can't be caught within the regulation kicks; after that, sudden death
+// (decided whenever both sides have kicked equally often and the tally differs).
+function shootoutWinner(s: Base.ModeState, kicks: number): 1 | 2 | null {
+  const left1 = Math.max(0, kicks - s.kicks1);
+  const left2 = Math.max(0, kicks - s.kicks2);
+  if (s.pens1 > s.pens2 + left2) return 1;
+  if (s.pens2 > s.pens1 + left1) return 2;
+  if (s.kicks1 === s.kicks2 && s.kicks1 >= kicks && s.pens1 !== s.pens2) return s.pens1 > s.pens2 ? 1 : 2;
+  return null;
+}
+
+function kickerOf(match: Match): Base.SlimeBase {
+  const s = match.modeState;
+  const team = s.shooter === 1 ? match.team1 : match.team2;
+  return team[s[`kicks${s.shooter}`] % team.length];
+}
+
+function keeperOf(match: Match): Base.SlimeBase {
+  return match.modeState.shooter === 1 ? match.team2[0] : match.team1[0];
+}
+
+export function shootoutRole(match: Match, slime: Base.SlimeBase): ShootoutRole | null {
+  if (match.modeState.period !== SoccerPeriod.SHOOTOUT) return null;
+  if (slime === kickerOf(match)) return 'shooter';
+  if (slime === keeperOf(match)) return 'keeper';
+  return 'bench';
+}
+
+// Penalty set piece: ball on the spot, kicker behind it, keeper on the line, the rest far away
+export function placeSoccerRound(match: Match): void {
+  if (match.modeState.period !== SoccerPeriod.SHOOTOUT) return;
+  const W = Base.CONFIG.internalWidth;
+  const groundY = Base.CONFIG.internalHeight - Base.CONFIG.groundHeight;
+  const r = match.rules.slimeRadius;
+  // Mirror x for team 2's kicks (toward the left goal)
+  const toward = (x: number) => (match.modeState.shooter === 1 ? x : W - x);
+
+  const kicker = kickerOf(match);
+  const keeper = keeperOf(match);
+  match.slimes.forEach((slime, i) => {
+    if (slime === kicker) slime.placeAt(toward(W * 0.62));
+    else if (slime === keeper) slime.placeAt(toward(W - r - 10));
+    else slime.placeAt(toward(r + 10 + i * 30));
+  });
+  match.ball.placeAt(toward(W * 0.7), groundY - match.rules.ballRadius);
+}
+
+// --- HUD & RESULT ---
+function formatClock(ticks: number): string {
+  const seconds = Math.ceil(ticks / 60);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+export function soccerScoreDisplay(match: Match): Base.ScoreDisplay {
+  const display = Base.pointScoreDisplay(match);
+  if (!isTimedSoccer(match.rules)) return display;
+
+  const s = match.modeState;
+  const clock = formatClock(ticksLeft(match));
+  switch (s.period) {
+    case SoccerPeriod.FIRST_HALF: return { ...display, center: `1st Half ${clock}` };
+    case SoccerPeriod.SECOND_HALF: return { ...display, center: `2nd Half ${clock}` };
+    case SoccerPeriod.OVERTIME: return { ...display, center: `Golden Goal ${clock}` };
+    default: return { ...display, center: `Penalties ${s.pens1}-${s.pens2} · P${s.shooter} to shoot ${clock}` };
+  }
+}
+
+export function soccerResultText(match: Match): string {
+  const s = match.modeState;
+  if (!isTimedSoccer(match.rules)) return Base.winnerText(match);
+  if (s.period === SoccerPeriod.SHOOTOUT) {
+    return `Player ${match.winner} Wins on Penalties! (${s.pens1}-${s.pens2})`;
+  }
+  if (s.period === SoccerPeriod.OVERTIME) return `Player ${match.winner} Wins on a Golden Goal!`;
+  return Base.winnerText(match);
+}
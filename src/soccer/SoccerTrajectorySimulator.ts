@@ -15,11 +15,15 @@ export interface BallSimState {
 // - verdict: 'win'  => goal on LEFT (P2 scores)
 // - verdict: 'loss' => goal on RIGHT (P2 concedes)
 export class SoccerTrajectorySimulator extends SimulationBase<BallSimState, { goalSide: GoalSide }> {
+  constructor(private readonly rules: Base.RuleSet) {
+    super();
+  }
+
   protected step(s: Readonly<BallSimState>): BallSimState {
-    const r = Base.CONFIG.ballRadius;
+    const r = this.rules.ballRadius;
     const groundY = Base.CONFIG.internalHeight - Base.CONFIG.groundHeight;
-    const goalTopY = groundY - Base.CONFIG.SOCCER_GOAL_H;
-    const crossR = Base.CONFIG.SOCCER_CROSSBAR_R;
+    const goalTopY = groundY - this.rules.SOCCER_GOAL_H;
+    const crossR = this.rules.SOCCER_CROSSBAR_R;
 
     let x = s.x;
     let y = s.y;
@@ -27,9 +31,9 @@ export class SoccerTrajectorySimulator extends SimulationBase<BallSimState, { go
     let vy = s.vy;
 
     // Universal-ish physics (matches BallBase update)
-    vy += Base.CONFIG.gravity;
-    vx *= Base.CONFIG.friction;
-    vy *= Base.CONFIG.friction;
+    vy += this.rules.gravity;
+    vx *= this.rules.friction;
+    vy *= this.rules.friction;
 
     x += vx;
     y += vy;
@@ -73,9 +77,9 @@ export class SoccerTrajectorySimulator extends SimulationBase<BallSimState, { go
   }
 
   protected terminal(s: Readonly<BallSimState>, step: number): SimulationOutcome<{ goalSide: GoalSide }> | null {
-    const r = Base.CONFIG.ballRadius;
+    const r = this.rules.ballRadius;
     const groundY = Base.CONFIG.internalHeight - Base.CONFIG.groundHeight;
-    const goalTopY = groundY - Base.CONFIG.SOCCER_GOAL_H;
+    const goalTopY = groundY - this.rules.SOCCER_GOAL_H;
 
     // Soccer scoring conditions from BallSoccer:
     // - left goal scores for P2 when x < -r and y is in the opening (>= goalTopY)
@@ -1,9 +1,13 @@
 export { BallSoccer } from './BallSoccer.js';
 export { SlimeSoccer } from './SlimeSoccer.js';
 export { SoccerAI } from './SoccerAI.js';
+export { PenaltyAI } from './PenaltyAI.js';
+export { SoccerPeriod, isTimedSoccer, shootoutRole } from './SoccerTimedRules.js';
+export type { ShootoutRole } from './SoccerTimedRules.js';
+export { campPressure, isInOwnGoalArea } from './GoalCamping.js';
 export { SoccerTrajectorySimulator } from './SoccerTrajectorySimulator.js';
 export type { GoalSide, BallSimState } from './SoccerTrajectorySimulator.js';
-export { SoccerRolloutSimulator } from './SoccerRolloutSimulator.js';
-export type { SoccerWorldSnapshot, P2Action } from './SoccerRolloutSimulator.js';
+export { SOCCER_ROLLOUT } from './SoccerRollout.js';
 
 
+export { SOCCER_MODE } from './SoccerMode.js';
@@ -0,0 +1,171 @@
+import * as Base from '../base/index.js';
+
+// Player whose half of the court contains x (the net splits the court in two)
+function sideOf(x: number): 1 | 2 {
+  return x < Base.CONFIG.internalWidth / 2 ? 1 : 2;
+}
+
+function opponentOf(player: 1 | 2): 1 | 2 {
+  return player === 1 ? 2 : 1;
+}
+
+// --- BALL TENNIS (Tennis-Specific Logic) ---
+// No side walls: the court is open at both ends. The ball tracks who touched it last and how
+// often it has bounced on the receiving side, and ends the rally when a rule is broken:
+// - a shot must land in the opponent's half (serves included); a second bounce there loses
+// - the receiver must let the serve bounce before playing it
+// - one touch per shot: playing the ball again before the opponent does loses the point
+// - a ball leaving the court without a good bounce is out (the hitter loses); after a good
+//   bounce it got past the receiver (the hitter wins)
+export class BallTennis extends Base.BallBase {
+  lastHitter: 0 | 1 | 2 = 0; // 0 = nobody yet (the serve is still dropping onto the server)
+  bounces: number = 0; // Good bounces in the receiving half since the last hit
+  serving: boolean = true; // Until the serve's first bounce
+  lastTouchTick: number = 0;
+
+  constructor(game: Base.GameInterface, clock: Base.SimClock, rules: Base.RuleSet) {
+    super(clock, rules);
+    this.game = game;
+  }
+
+  // The ball is dropped above the server's slime; the server hits it over the net.
+  reset(serverSlime: Base.SlimeBase | null = null): void {
+    if (!serverSlime) return;
+
+    this.x = serverSlime.x;
+    this.y = serverSlime.y - 150;
+    this.prevX = this.x;
+    this.prevY = this.y;
+    this.vx = 0;
+    this.vy = 0;
+    this.lastHitter = 0;
+    this.bounces = 0;
+    this.serving = true;
+    this.lastTouchTick = 0;
+    this.freezeFor(this.rules.ballResetFreezeTicks); // short delay before ball starts falling
+  }
+
+  getState(): Base.BallState {
+    return {
+      ...super.getState(),
+      modeState: {
+        lastHitter: this.lastHitter,
+        bounces: this.bounces,
+        serving: this.serving ? 1 : 0,
+        lastTouchTick: this.lastTouchTick,
+      },
+    };
+  }
+
+  setState(state: Readonly<Base.BallState>): void {
+    super.setState(state);
+    const rally = state.modeState ?? {};
+    this.lastHitter = (rally.lastHitter ?? 0) as 0 | 1 | 2;
+    this.bounces = rally.bounces ?? 0;
+    this.serving = (rally.serving ?? 1) !== 0;
+    this.lastTouchTick = rally.lastTouchTick ?? 0;
+  }
+
+  checkGameGeometry(): void {
+    if (!this.game) return;
+
+    const r = this.rules.ballRadius;
+    const groundY = Base.CONFIG.internalHeight - Base.CONFIG.groundHeight;
+    const netX = Base.CONFIG.internalWidth / 2;
+    const netTopY = groundY - this.rules.TENNIS_NET_H;
+
+    // Low net
+    this.resolveNetCollision(netX, this.rules.TENNIS_NET_W / 2, netTopY, groundY);
+
+    // Ground Bounce
+    if (this.y + r > groundY) {
+      this.y = groundY - r;
+      this.vy *= -0.75;
+      this.vx *= 0.95;
+      this.emit('groundBounce', { x: this.x });
+      this.checkBounce(sideOf(this.x));
+    }
+
+    // Out past either end of the court
+    if (this.x < -r) this.checkOut(1);
+    else if (this.x > Base.CONFIG.internalWidth + r) this.checkOut(2);
+  }
+
+  private checkBounce(side: 1 | 2): void {
+    if (this.lastHitter === 0) {
+      // The server let the ball drop
+      this.game?.scorePoint(opponentOf(side));
+    } else if (side === this.lastHitter) {
+      // Landed in the hitter's own half (a faulted serve, or a shot into the net)
+      this.game?.scorePoint(opponentOf(this.lastHitter));
+    } else {
+      this.serving = false;
+      this.bounces++;
+      if (this.bounces >= 2) this.game?.scorePoint(this.lastHitter);
+    }
+  }
+
+  private checkOut(end: 1 | 2): void {
+    if (this.lastHitter === 0) {
+      this.game?.scorePoint(opponentOf(end));
+    } else if (this.bounces > 0) {
+      // Good bounce, then past the receiver
+      this.game?.scorePoint(this.lastHitter);
+    } else {
+      // Hit out
+      this.game?.scorePoint(opponentOf(this.lastHitter));
+    }
+  }
+
+  // Every touch (hit or catch) starts a new shot for that player.
+  // Returns true when the touch itself lost the point (the ball has been reset: don't move it).
+  private touch(slime: Base.SlimeBase): boolean {
+    const player = slime.isPlayer1 ? 1 : 2;
+    const tick = this.clock.tick;
+    if (this.serving && this.lastHitter !== 0 && player !== this.lastHitter) {
+      // The receiver played the serve before it bounced
+      this.game?.scorePoint(this.lastHitter);
+      return true;
+    }
+    if (player === this.lastHitter && tick - this.lastTouchTick > Base.TOUCH_MERGE_TICKS) {
+      // Double hit (e.g. juggling the serve instead of playing it over)
+      this.emit('fault', { side: player, reason: 'doubleTouch' });
+      this.game?.scorePoint(opponentOf(player));
+      return true;
+    }
+    this.lastTouchTick = tick;
+    this.lastHitter = player;
+    this.bounces = 0;
+    return false;
+  }
+
+  resolveSlimeHit(slime: Base.SlimeBase, angle: number, isStomp: boolean, dx: number): void {
+    if (this.touch(slime)) return;
+    super.resolveSlimeHit(slime, angle, isStomp, dx);
+  }
+
+  catchBy(slime: Base.SlimeBase): void {
+    if (this.touch(slime)) return;
+    super.catchBy(slime);
+  }
+
+  draw(ctx: CanvasRenderingContext2D, alpha: number = 1): void {
+    const r = this.rules.ballRadius;
+    const { x, y } = this.interpolatedPosition(alpha);
+    ctx.beginPath();
+    ctx.arc(x, y, r, 0, Math.PI * 2);
+    ctx.fillStyle = '#d4e157';
+    ctx.fill();
+    ctx.lineWidth = 2;
+    ctx.strokeStyle = '#9e9d24';
+    ctx.stroke();
+    // Tennis ball seams
+    ctx.strokeStyle = '#fff';
+    ctx.beginPath();
+    ctx.arc(x - r, y, r * 0.7, -Math.PI / 3, Math.PI / 3);
+    ctx.stroke();
+    ctx.beginPath();
+    ctx.arc(x + r, y, r * 0.7, Math.PI * 2 / 3, Math.PI * 4 / 3);
+    ctx.stroke();
+  }
+}
@@ -0,0 +1,24 @@
+import * as Base from '../base/index.js';
+
+// --- SLIME TENNIS (Half Court / Low Net Boundaries) ---
+export class SlimeTennis extends Base.SlimeBase {
+  constructor(isPlayer1: boolean, clock: Base.SimClock, rules: Base.RuleSet, slot?: Base.TeamSlot) {
+    super(isPlayer1, isPlayer1 ? '#e74c3c' : '#9b59b6', clock, rules, slot);
+  }
+
+  applyBoundaries(): void {
+    const r = this.rules.slimeRadius;
+    const netX = Base.CONFIG.internalWidth / 2;
+    const netW = this.rules.TENNIS_NET_W / 2;
+
+    if (this.isPlayer1) {
+      // Must stay left of the net
+      if (this.x + r > netX - netW) this.x = netX - netW - r;
+      if (this.x - r < 0) this.x = r; // Baseline
+    } else {
+      // Must stay right of the net
+      if (this.x - r < netX + netW) this.x = netX + netW + r;
+      if (this.x + r > Base.CONFIG.internalWidth) this.x = Base.CONFIG.internalWidth - r; // Baseline
+    }
+  }
+}
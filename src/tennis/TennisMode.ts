@@ -0,0 +1,107 @@
+import * as Base from '../base/index.js';
+import type { Match } from '../base/Match.js';
+import { SlimeTennis } from './SlimeTennis.js';
+import { BallTennis } from './BallTennis.js';
+import { TennisAI } from './TennisAI.js';
+
+const POINT_CALLS = ['0', '15', '30', '40'];
+
+function drawTennisNet(ctx: CanvasRenderingContext2D, groundY: number, rules: Base.RuleSet): void {
+  const netW = rules.TENNIS_NET_W;
+  const netH = rules.TENNIS_NET_H;
+  const netX = (Base.CONFIG.internalWidth - netW) / 2;
+  const netY = groundY - netH;
+
+  // Court line along the ground
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, groundY, Base.CONFIG.internalWidth, 3);
+
+  // Mesh
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+  ctx.fillRect(netX, netY, netW, netH);
+  ctx.strokeStyle = '#000';
+  ctx.lineWidth = 2;
+  ctx.strokeRect(netX, netY, netW, netH);
+
+  // Tape
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(netX - 2, netY - 3, netW + 4, 5);
+}
+
+// A game is won at 4+ points with a two-point lead (deuce / advantage beyond 40-40).
+function winsGame(points: number, otherPoints: number): boolean {
+  return points >= 4 && points - otherPoints >= 2;
+}
+
+// A set is won at TENNIS_GAMES_PER_SET games with a two-game lead, or one game later regardless.
+function winsSet(games: number, otherGames: number, rules: Base.RuleSet): boolean {
+  const target = rules.TENNIS_GAMES_PER_SET;
+  return games > target || (games >= target && games - otherGames >= 2);
+}
+
+// --- TENNIS SCORING (Points → Games → Sets) ---
+// match.score1/score2 count every point won; modeState holds the current game, set and match.
+function createTennisState(): Base.ModeState {
+  return { points1: 0, points2: 0, games1: 0, games2: 0, sets1: 0, sets2: 0 };
+}
+
+function onTennisPoint(match: Match, scoringPlayer: 1 | 2): void {
+  const s = match.modeState;
+  const other = scoringPlayer === 1 ? 2 : 1;
+  s[`points${scoringPlayer}`]++;
+  if (!winsGame(s[`points${scoringPlayer}`], s[`points${other}`])) return;
+
+  s.points1 = 0;
+  s.points2 = 0;
+  s[`games${scoringPlayer}`]++;
+  if (!winsSet(s[`games${scoringPlayer}`], s[`games${other}`], match.rules)) return;
+
+  s.games1 = 0;
+  s.games2 = 0;
+  s[`sets${scoringPlayer}`]++;
+}
+
+function checkTennisWinner(match: Match): 1 | 2 | null {
+  if (match.modeState.sets1 >= match.rules.TENNIS_SETS_TO_WIN) return 1;
+  if (match.modeState.sets2 >= match.rules.TENNIS_SETS_TO_WIN) return 2;
+  return null;
+}
+
+// Serve alternates every game: 0-0 after a point means a game just finished.
+function nextTennisServer(match: Match): 1 | 2 {
+  const s = match.modeState;
+  const server = match.server === 1 ? 1 : 2;
+  if (s.points1 === 0 && s.points2 === 0) return server === 1 ? 2 : 1;
+  return server;
+}
+
+// 15/30/40 calls, then Deuce / Adv once both players reach 40.
+function tennisScoreDisplay(match: Match): Base.ScoreDisplay {
+  const s = match.modeState;
+  const record = `Games ${s.games1}-${s.games2} · Sets ${s.sets1}-${s.sets2}`;
+  if (s.points1 >= 3 && s.points2 >= 3) {
+    if (s.points1 === s.points2) return { p1: 'P1: 40', p2: 'P2: 40', center: `Deuce · ${record}` };
+    const p1Ahead = s.points1 > s.points2;
+    return { p1: p1Ahead ? 'P1: Adv' : 'P1: 40', p2: p1Ahead ? 'P2: 40' : 'P2: Adv', center: record };
+  }
+  return { p1: `P1: ${POINT_CALLS[s.points1]}`, p2: `P2: ${POINT_CALLS[s.points2]}`, center: record };
+}
+
+// --- SLIME TENNIS MODE ---
+// Full-width open court with a low net; one bounce allowed per side. The serve alternates each game;
+// tennis scoring, best of (2 * TENNIS_SETS_TO_WIN - 1) sets.
+export const TENNIS_MODE: Base.GameModeDefinition = {
+  id: 'TENNIS',
+  name: 'Slime Tennis',
+  emoji: '🎾',
+  SlimeClass: SlimeTennis,
+  BallClass: BallTennis,
+  drawArena: drawTennisNet,
+  servingSlime: (match) => (match.server === 1 ? match.p1 : match.p2),
+  nextServer: nextTennisServer,
+  checkWinner: checkTennisWinner,
+  createModeState: createTennisState,
+  onPoint: onTennisPoint,
+  scoreDisplay: tennisScoreDisplay,
+  createAI: (rules) => new TennisAI(rules),
+};
@@ -0,0 +1,12 @@
+import type * as AI from '../ai/index.js';
+import { SlimeTennis } from './SlimeTennis.js';
+import { BallTennis } from './BallTennis.js';
+
+// Tennis rollouts: the first rally-ending call ends the rollout (the perspective player's point is a 'win').
+// No extra metrics: the AI scores end states directly.
+export const TENNIS_ROLLOUT: AI.RolloutMode<AI.NoMetrics> = {
+  SlimeClass: SlimeTennis,
+  BallClass: BallTennis,
+  createMetrics: () => ({}),
+  updateMetrics: () => {},
+};
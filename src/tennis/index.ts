@@ -0,0 +1,5 @@
+export { BallTennis } from './BallTennis.js';
+export { SlimeTennis } from './SlimeTennis.js';
+export { TennisAI } from './TennisAI.js';
+export { TENNIS_ROLLOUT } from './TennisRollout.js';
+export { TENNIS_MODE } from './TennisMode.js';
@@ -0,0 +1,53 @@
+import * as Base from '../base/index.js';
+import * as AI from '../ai/index.js';
+import { Match } from '../base/Match.js';
+
+// Longest a bot game may run (5 minutes @ 60Hz) before the leader is declared the winner
+export const BOT_GAME_TICK_LIMIT = 5 * 60 * Base.SimClock.TICKS_PER_SECOND;
+
+// --- BOT GAME (Headless AI vs AI) ---
+// Plays one 1v1 game between two bots without rendering, a chunk of ticks at a time so the
+// browser can stay responsive between chunks. Controllers match the live game's AI vs AI: the
+// mode AI on both sides, each with its own seed, stepped like arena matches (BotDuel) so neither
+// side sees the other's move first.
+export class BotGame {
+  readonly match: Match;
+  private readonly duel: AI.BotDuel;
+  // The bot that started on the left (it follows the players when they switch ends)
+  private readonly leftAI: AI.AIBase;
+
+  constructor(mode: Base.GameMode, rules: Base.RuleSet, seed: number = 1) {
+    this.match = new Match(mode, { rules });
+    const difficulty = AI.NORMAL_DIFFICULTY;
+    this.leftAI = this.match.definition.createAI(rules, this.match, difficulty, seed * 2 + 1);
+    this.duel = new AI.BotDuel(
+      this.match,
+      this.leftAI,
+      this.match.definition.createAI(rules, this.match, difficulty, seed * 2 + 2)
+    );
+  }
+
+  get ticks(): number {
+    return this.match.clock.tick;
+  }
+
+  isFinished(): boolean {
+    return this.match.isOver() || this.ticks >= BOT_GAME_TICK_LIMIT;
+  }
+
+  // Simulate up to maxTicks more steps; true once the game is finished
+  advance(maxTicks: number): boolean {
+    for (let i = 0; i < maxTicks && !this.isFinished(); i++) this.duel.step();
+    return this.isFinished();
+  }
+
+  // Winner by starting side (1 = started on the left): the match winner, else the leader
+  // when time ran out; null for a tie
+  result(): 1 | 2 | null {
+    const match = this.match;
+    let side = match.winner;
+    if (side === null && match.score1 !== match.score2) side = match.score1 > match.score2 ? 1 : 2;
+    if (side === null) return null;
+    return this.duel.aiOn(side) === this.leftAI ? 1 : 2;
+  }
+}
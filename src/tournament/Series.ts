@@ -0,0 +1,38 @@
+// --- SERIES (Best of N Games) ---
+// Tracks games won by side 1 and side 2 until one of them has won a majority of `bestOf`.
+export class Series {
+  wins1: number = 0;
+  wins2: number = 0;
+  readonly results: (1 | 2)[] = [];
+
+  constructor(readonly bestOf: number) {
+    if (!Number.isInteger(bestOf) || bestOf < 1 || bestOf % 2 === 0) {
+      throw new Error(`Series length must be a positive odd number: ${bestOf}`);
+    }
+  }
+
+  get winsNeeded(): number {
+    return Math.floor(this.bestOf / 2) + 1;
+  }
+
+  // Games played so far (the next game's index)
+  get played(): number {
+    return this.results.length;
+  }
+
+  record(winner: 1 | 2): void {
+    if (this.isOver()) throw new Error('Series is already decided');
+    this.results.push(winner);
+    if (winner === 1) this.wins1++; else this.wins2++;
+  }
+
+  winner(): 1 | 2 | null {
+    if (this.wins1 >= this.winsNeeded) return 1;
+    if (this.wins2 >= this.winsNeeded) return 2;
+    return null;
+  }
+
+  isOver(): boolean {
+    return this.winner() !== null;
+  }
+}
@@ -0,0 +1,192 @@
+import type { GameMode } from '../base/index.js';
+import { Series } from './Series.js';
+
+// --- TOURNAMENT (Local Single-Elimination Bracket) ---
+// 4-16 named players, humans or bots, seeded into a standard bracket (1 plays the lowest seed,
+// 1 and 2 can only meet in the final). Fields short of a power of two give the top seeds byes.
+// Every round has its own mode and series length; each bracket match is a best-of-N series.
+
+export const MIN_TOURNAMENT_PLAYERS = 4;
+export const MAX_TOURNAMENT_PLAYERS = 16;
+
+export interface TournamentEntry {
+  name: string;
+  bot: boolean;
+}
+
+export interface TournamentPlayer extends TournamentEntry {
+  seed: number; // 1 = top seed
+}
+
+// What a round is played as
+export interface TournamentRound {
+  mode: GameMode;
+  bestOf: number;
+}
+
+export interface BracketMatch {
+  readonly round: number; // 0 = first round
+  readonly slot: number; // position within the round, top to bottom
+  // Filled in as earlier rounds finish; null in the first round is a bye
+  readonly players: [TournamentPlayer | null, TournamentPlayer | null];
+  readonly series: Series;
+  winner: TournamentPlayer | null;
+}
+
+// Rounds needed for a field (4 players: 2, 5-8: 3, 9-16: 4)
+export function tournamentRoundCount(playerCount: number): number {
+  return Math.ceil(Math.log2(playerCount));
+}
+
+// "Final", "Semifinals", "Quarterfinals", else "Round n"
+export function roundName(round: number, roundCount: number): string {
+  return ['Final', 'Semifinals', 'Quarterfinals'][roundCount - 1 - round] ?? `Round ${round + 1}`;
+}
+
+// Seeds in bracket order for a power-of-two field: [1, 8, 4, 5, 2, 7, 3, 6] for 8
+export function seedingOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const sum = order.length * 2 + 1;
+    order = order.flatMap((seed) => [seed, sum - seed]);
+  }
+  return order;
+}
+
+// Random seeding: a shuffled copy of the entries (Fisher-Yates)
+export function shuffleEntries<T>(entries: readonly T[], random: () => number = Math.random): T[] {
+  const shuffled = [...entries];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+export class Tournament {
+  // By seed: entries are seeded in the order given
+  readonly players: readonly TournamentPlayer[];
+  readonly rounds: readonly (readonly BracketMatch[])[];
+
+  constructor(entries: readonly TournamentEntry[], readonly roundSettings: readonly TournamentRound[]) {
+    if (entries.length < MIN_TOURNAMENT_PLAYERS || entries.length > MAX_TOURNAMENT_PLAYERS) {
+      throw new Error(`A tournament needs ${MIN_TOURNAMENT_PLAYERS}-${MAX_TOURNAMENT_PLAYERS} players, got ${entries.length}`);
+    }
+    const names = new Set<string>();
+    for (const { name } of entries) {
+      if (!name.trim()) throw new Error('Every player needs a name');
+      if (names.has(name)) throw new Error(`Duplicate player name: ${name}`);
+      names.add(name);
+    }
+    const roundCount = tournamentRoundCount(entries.length);
+    if (roundSettings.length !== roundCount) {
+      throw new Error(`Expected settings for ${roundCount} rounds, got ${roundSettings.length}`);
+    }
+
+    this.players = entries.map((entry, i) => ({ name: entry.name, bot: entry.bot, seed: i + 1 }));
+    const order = seedingOrder(2 ** roundCount);
+    this.rounds = roundSettings.map((settings, round) => {
+      const matchCount = 2 ** (roundCount - round - 1);
+      return Array.from({ length: matchCount }, (_, slot): BracketMatch => ({
+        round,
+        slot,
+        players: round === 0
+          ? [this.playerBySeed(order[slot * 2]), this.playerBySeed(order[slot * 2 + 1])]
+          : [null, null],
+        series: new Series(settings.bestOf),
+        winner: null,
+      }));
+    });
+
+    // Byes: a first-round player without an opponent goes straight through
+    for (const match of this.rounds[0]) {
+      const [a, b] = match.players;
+      const bye = a ?? b;
+      if ((!a || !b) && bye) this.advance(match, bye);
+    }
+  }
+
+  private playerBySeed(seed: number): TournamentPlayer | null {
+    return this.players[seed - 1] ?? null;
+  }
+
+  roundName(round: number): string {
+    return roundName(round, this.rounds.length);
+  }
+
+  isBye(match: BracketMatch): boolean {
+    return match.round === 0 && match.players.includes(null);
+  }
+
+  // Next undecided match with both players known, earliest round first
+  nextMatch(): BracketMatch | null {
+    for (const round of this.rounds) {
+      const match = round.find((m) => !m.winner && m.players[0] && m.players[1]);
+      if (match) return match;
+    }
+    return null;
+  }
+
+  // Player on each side (left, right) for the match's next game. A human facing a bot always
+  // plays on the left, where the keyboard's P1 controls are; otherwise sides alternate each game.
+  sidesForGame(match: BracketMatch): [TournamentPlayer, TournamentPlayer] {
+    const [a, b] = match.players;
+    if (!a || !b) throw new Error('Bracket match is not ready to play');
+    if (a.bot !== b.bot) return a.bot ? [b, a] : [a, b];
+    return match.series.played % 2 === 0 ? [a, b] : [b, a];
+  }
+
+  // Tie-break for a game without a winner (bot games that hit their time limit)
+  betterSeed(match: BracketMatch): TournamentPlayer {
+    const [a, b] = match.players;
+    if (!a || !b) throw new Error('Bracket match is not ready to play');
+    return a.seed <= b.seed ? a : b;
+  }
+
+  // Record one game of a match's series; the series winner moves on to the next round
+  recordGame(match: BracketMatch, winner: TournamentPlayer): void {
+    const side = match.players.indexOf(winner);
+    if (side < 0) throw new Error(`${winner.name} is not playing this match`);
+    match.series.record(side === 0 ? 1 : 2);
+    if (match.series.isOver()) this.advance(match, winner);
+  }
+
+  private advance(match: BracketMatch, winner: TournamentPlayer): void {
+    match.winner = winner;
+    const next = this.rounds[match.round + 1]?.[Math.floor(match.slot / 2)];
+    if (next) next.players[match.slot % 2] = winner;
+  }
+
+  champion(): TournamentPlayer | null {
+    return this.rounds[this.rounds.length - 1][0].winner;
+  }
+
+  isOver(): boolean {
+    return this.champion() !== null;
+  }
+}
+
+function playerName(player: TournamentPlayer | null): string {
+  return player?.name ?? 'TBD';
+}
+
+// "Alice vs Bob"
+export function matchTitle(match: BracketMatch): string {
+  return `${playerName(match.players[0])} vs ${playerName(match.players[1])}`;
+}
+
+// "Series: Alice 2-1 Bob"
+export function seriesScore(match: BracketMatch): string {
+  const [a, b] = match.players;
+  return `Series: ${playerName(a)} ${match.series.wins1}-${match.series.wins2} ${playerName(b)}`;
+}
+
+// "Alice beat Bob 3-1" once decided (no score for single games or byes)
+export function matchSummary(match: BracketMatch): string {
+  const winner = match.winner;
+  if (!winner) return matchTitle(match);
+  const loser = match.players.find((player) => player !== winner) ?? null;
+  const { wins1, wins2, bestOf } = match.series;
+  const score = bestOf > 1 && loser ? ` ${Math.max(wins1, wins2)}-${Math.min(wins1, wins2)}` : '';
+  return `${winner.name} beat ${playerName(loser)}${score}`;
+}
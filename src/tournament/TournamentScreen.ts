@@ -0,0 +1,369 @@
+import type { GameModeDefinition } from '../base/index.js';
+import {
+  MIN_TOURNAMENT_PLAYERS,
+  MAX_TOURNAMENT_PLAYERS,
+  tournamentRoundCount,
+  roundName,
+  type BracketMatch,
+  type Tournament,
+  type TournamentEntry,
+  type TournamentPlayer,
+  type TournamentRound,
+} from './Tournament.js';
+
+export const SERIES_LENGTHS = [1, 3, 5, 7] as const;
+
+export type TournamentSeeding = 'listed' | 'random';
+
+export interface TournamentSetup {
+  entries: TournamentEntry[];
+  seeding: TournamentSeeding;
+  rounds: TournamentRound[];
+}
+
+export interface TournamentScreenHandlers {
+  onStart(setup: TournamentSetup): void;
+  onPlayNext(): void;
+  onQuit(): void;
+}
+
+interface PlayerRow {
+  name: HTMLInputElement;
+  bot: HTMLInputElement;
+}
+
+interface RoundRow {
+  mode: HTMLSelectElement;
+  bestOf: HTMLSelectElement;
+}
+
+// --- TOURNAMENT SCREEN (Setup Form and Bracket) ---
+// Self-contained overlay (like ReplayControls): builds its own DOM and styles. The setup view
+// collects players, seeding and per-round settings; the bracket view sits between games.
+export class TournamentScreen {
+  private container: HTMLDivElement;
+  private setupView: HTMLDivElement;
+  private bracketView: HTMLDivElement;
+  private playerList: HTMLDivElement;
+  private roundList: HTMLDivElement;
+  private seedingSelect: HTMLSelectElement;
+  private bracketGrid: HTMLDivElement;
+  private statusLabel: HTMLDivElement;
+  private playNextBtn: HTMLButtonElement;
+  private players: PlayerRow[] = [];
+  private roundRows: RoundRow[] = [];
+  private modes: readonly GameModeDefinition[] = [];
+
+  constructor(private readonly handlers: TournamentScreenHandlers) {
+    this.initStyles();
+
+    this.container = document.createElement('div');
+    this.container.id = 'tournament-screen';
+
+    // Setup view
+    this.setupView = document.createElement('div');
+    this.setupView.className = 'tournament-panel';
+    this.playerList = document.createElement('div');
+    this.playerList.className = 'tournament-list';
+    const addBtn = this.createButton('+ Add Player', 'secondary', () => this.addPlayer());
+    const removeBtn = this.createButton('− Remove', 'secondary', () => this.removePlayer());
+    const playerActions = document.createElement('div');
+    playerActions.className = 'tournament-actions';
+    playerActions.append(addBtn, removeBtn);
+
+    this.seedingSelect = document.createElement('select');
+    for (const [value, text] of [['listed', 'Seeded as listed'], ['random', 'Random seeding']]) {
+      const option = document.createElement('option');
+      option.value = value;
+      option.textContent = text;
+      this.seedingSelect.appendChild(option);
+    }
+    this.roundList = document.createElement('div');
+    this.roundList.className = 'tournament-list';
+
+    const setupActions = document.createElement('div');
+    setupActions.className = 'tournament-actions';
+    setupActions.append(
+      this.createButton('Start Tournament', 'primary', () => this.handlers.onStart(this.readSetup())),
+      this.createButton('Cancel', 'secondary', () => this.handlers.onQuit()),
+    );
+    this.setupView.append(
+      this.createHeading('🏆 Tournament'),
+      this.createLabel('Players (in seed order)'),
+      this.playerList,
+      playerActions,
+      this.seedingSelect,
+      this.createLabel('Rounds'),
+      this.roundList,
+      setupActions,
+    );
+
+    // Bracket view
+    this.bracketView = document.createElement('div');
+    this.bracketView.className = 'tournament-panel tournament-bracket-panel';
+    this.bracketGrid = document.createElement('div');
+    this.bracketGrid.className = 'tournament-bracket';
+    this.statusLabel = document.createElement('div');
+    this.statusLabel.className = 'tournament-status';
+    this.playNextBtn = this.createButton('Play Next Match', 'primary', () => this.handlers.onPlayNext());
+    const bracketActions = document.createElement('div');
+    bracketActions.className = 'tournament-actions';
+    bracketActions.append(this.playNextBtn, this.createButton('Leave Tournament', 'secondary', () => this.handlers.onQuit()));
+    this.bracketView.append(this.createHeading('🏆 Bracket'), this.bracketGrid, this.statusLabel, bracketActions);
+
+    this.container.append(this.setupView, this.bracketView);
+    document.body.appendChild(this.container);
+    this.hide();
+
+    for (let i = 0; i < MIN_TOURNAMENT_PLAYERS; i++) this.addPlayer();
+  }
+
+  // Setup form; modes are the ones selectable per round
+  showSetup(modes: readonly GameModeDefinition[]): void {
+    this.modes = modes;
+    this.buildRoundRows();
+    this.setupView.style.display = 'flex';
+    this.bracketView.style.display = 'none';
+    this.container.style.display = 'flex';
+  }
+
+  // Bracket with a status line. `canPlay` offers the next (human) match.
+  showBracket(tournament: Tournament, status: string, canPlay: boolean): void {
+    this.renderBracket(tournament);
+    this.statusLabel.textContent = status;
+    this.playNextBtn.style.display = canPlay ? '' : 'none';
+    this.setupView.style.display = 'none';
+    this.bracketView.style.display = 'flex';
+    this.container.style.display = 'flex';
+  }
+
+  hide(): void {
+    this.container.style.display = 'none';
+  }
+
+  private addPlayer(): void {
+    if (this.players.length >= MAX_TOURNAMENT_PLAYERS) return;
+    const row = document.createElement('div');
+    row.className = 'tournament-row';
+    const name = document.createElement('input');
+    name.type = 'text';
+    name.maxLength = 24;
+    name.value = `Player ${this.players.length + 1}`;
+    const botLabel = document.createElement('label');
+    const bot = document.createElement('input');
+    bot.type = 'checkbox';
+    botLabel.append(bot, ' Bot');
+    row.append(name, botLabel);
+    this.playerList.appendChild(row);
+    this.players.push({ name, bot });
+    this.buildRoundRows();
+  }
+
+  private removePlayer(): void {
+    if (this.players.length <= MIN_TOURNAMENT_PLAYERS) return;
+    this.players.pop();
+    this.playerList.lastElementChild?.remove();
+    this.buildRoundRows();
+  }
+
+  // One mode/series picker per round; counted from the final so choices stick as the field changes
+  private buildRoundRows(): void {
+    const count = tournamentRoundCount(this.players.length);
+    const previous = this.roundRows.map((row) => ({ mode: row.mode.value, bestOf: row.bestOf.value })).reverse();
+    this.roundList.innerHTML = '';
+    this.roundRows = [];
+    for (let round = 0; round < count; round++) {
+      const kept = previous[count - 1 - round];
+      const row = document.createElement('div');
+      row.className = 'tournament-row';
+      const label = document.createElement('span');
+      label.textContent = roundName(round, count);
+      const mode = document.createElement('select');
+      for (const definition of this.modes) {
+        const option = document.createElement('option');
+        option.value = definition.id;
+        option.textContent = `${definition.emoji} ${definition.name}`;
+        mode.appendChild(option);
+      }
+      const bestOf = document.createElement('select');
+      for (const length of SERIES_LENGTHS) {
+        const option = document.createElement('option');
+        option.value = String(length);
+        option.textContent = length === 1 ? 'Single game' : `Best of ${length}`;
+        bestOf.appendChild(option);
+      }
+      if (kept && this.modes.some((m) => m.id === kept.mode)) mode.value = kept.mode;
+      if (kept) bestOf.value = kept.bestOf;
+      row.append(label, mode, bestOf);
+      this.roundList.appendChild(row);
+      this.roundRows.push({ mode, bestOf });
+    }
+  }
+
+  private readSetup(): TournamentSetup {
+    return {
+      entries: this.players.map((row) => ({ name: row.name.value.trim(), bot: row.bot.checked })),
+      seeding: this.seedingSelect.value === 'random' ? 'random' : 'listed',
+      rounds: this.roundRows.map((row) => ({ mode: row.mode.value, bestOf: Number(row.bestOf.value) })),
+    };
+  }
+
+  private renderBracket(tournament: Tournament): void {
+    this.bracketGrid.innerHTML = '';
+    const next = tournament.nextMatch();
+    tournament.rounds.forEach((matches, round) => {
+      const column = document.createElement('div');
+      column.className = 'tournament-round';
+      const settings = tournament.roundSettings[round];
+      const mode = this.modes.find((m) => m.id === settings.mode);
+      const title = document.createElement('div');
+      title.className = 'tournament-round-title';
+      title.textContent = `${tournament.roundName(round)} · ${mode?.emoji ?? ''} ${settings.bestOf > 1 ? `Bo${settings.bestOf}` : ''}`.trim();
+      column.appendChild(title);
+      for (const match of matches) {
+        if (tournament.isBye(match)) continue;
+        column.appendChild(this.renderMatch(match, match === next));
+      }
+      this.bracketGrid.appendChild(column);
+    });
+  }
+
+  private renderMatch(match: BracketMatch, isNext: boolean): HTMLDivElement {
+    const box = document.createElement('div');
+    box.className = `tournament-match${isNext ? ' next' : ''}`;
+    const wins = [match.series.wins1, match.series.wins2];
+    match.players.forEach((player, i) => {
+      const line = document.createElement('div');
+      line.className = `tournament-player${player && match.winner === player ? ' winner' : ''}`;
+      const name = document.createElement('span');
+      name.textContent = player ? playerLabel(player) : '—';
+      const score = document.createElement('span');
+      score.textContent = match.series.played > 0 ? String(wins[i]) : '';
+      line.append(name, score);
+      box.appendChild(line);
+    });
+    return box;
+  }
+
+  private createHeading(text: string): HTMLHeadingElement {
+    const heading = document.createElement('h2');
+    heading.textContent = text;
+    return heading;
+  }
+
+  private createLabel(text: string): HTMLDivElement {
+    const label = document.createElement('div');
+    label.className = 'tournament-label';
+    label.textContent = text;
+    return label;
+  }
+
+  private createButton(text: string, kind: 'primary' | 'secondary', onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = kind;
+    button.textContent = text;
+    button.addEventListener('click', onClick);
+    return button;
+  }
+
+  private initStyles(): void {
+    const style = document.createElement('style');
+    style.textContent = `
+      #tournament-screen {
+        position: fixed;
+        inset: 0;
+        z-index: 100;
+        display: flex;
+        justify-content: center;
+        align-items: center;
+        padding: 20px;
+        box-sizing: border-box;
+        background: linear-gradient(135deg, #1e3c72 0%, #2a5298 100%);
+        font-family: 'Inter', system-ui, -apple-system, sans-serif;
+        color: white;
+      }
+      #tournament-screen .tournament-panel {
+        flex-direction: column;
+        gap: 12px;
+        width: 100%;
+        max-width: 420px;
+        max-height: 100%;
+        overflow-y: auto;
+        padding: 20px;
+        border-radius: 20px;
+        background: rgba(255, 255, 255, 0.1);
+        border: 1px solid rgba(255, 255, 255, 0.1);
+        box-sizing: border-box;
+      }
+      #tournament-screen .tournament-bracket-panel { max-width: 960px; }
+      #tournament-screen h2 { margin: 0; text-align: center; }
+      #tournament-screen .tournament-label { font-weight: 800; }
+      #tournament-screen .tournament-list { display: grid; gap: 8px; }
+      #tournament-screen .tournament-row {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        padding: 8px 12px;
+        border-radius: 12px;
+        background: rgba(0, 0, 0, 0.2);
+        font-weight: 600;
+      }
+      #tournament-screen .tournament-row span { flex: 1; }
+      #tournament-screen input[type=text] { flex: 1; min-width: 0; }
+      #tournament-screen input[type=text], #tournament-screen select {
+        border: none;
+        border-radius: 8px;
+        padding: 6px 10px;
+        font-family: inherit;
+        font-weight: 700;
+        color: #2c3e50;
+        background: rgba(255, 255, 255, 0.9);
+      }
+      #tournament-screen .tournament-actions { display: flex; gap: 10px; justify-content: center; }
+      #tournament-screen button {
+        border-radius: 50px;
+        padding: 10px 18px;
+        font-family: inherit;
+        font-weight: 700;
+        font-size: 0.95rem;
+        cursor: pointer;
+      }
+      #tournament-screen button.primary { background: #3498db; color: white; border: none; }
+      #tournament-screen button.secondary { background: transparent; color: white; border: 2px solid rgba(255, 255, 255, 0.6); }
+      #tournament-screen .tournament-bracket { display: flex; gap: 16px; overflow-x: auto; }
+      #tournament-screen .tournament-round {
+        display: flex;
+        flex-direction: column;
+        justify-content: space-around;
+        gap: 10px;
+        min-width: 170px;
+        flex: 1;
+      }
+      #tournament-screen .tournament-round-title { font-weight: 800; text-align: center; }
+      #tournament-screen .tournament-match {
+        border-radius: 10px;
+        background: white;
+        color: #2c3e50;
+        overflow: hidden;
+      }
+      #tournament-screen .tournament-match.next { outline: 3px solid #f1c40f; }
+      #tournament-screen .tournament-player {
+        display: flex;
+        justify-content: space-between;
+        gap: 8px;
+        padding: 6px 10px;
+        font-weight: 600;
+      }
+      #tournament-screen .tournament-player + .tournament-player { border-top: 1px solid #ecf0f1; }
+      #tournament-screen .tournament-player.winner { font-weight: 800; background: #d5f5e3; }
+      #tournament-screen .tournament-status { text-align: center; font-weight: 700; min-height: 1.2em; white-space: pre-line; }
+    `;
+    document.head.appendChild(style);
+  }
+}
+
+// "(1) Alice", with a robot for bots
+export function playerLabel(player: TournamentPlayer): string {
+  return `(${player.seed}) ${player.name}${player.bot ? ' 🤖' : ''}`;
+}
@@ -0,0 +1,17 @@
+export { Series } from './Series.js';
+export {
+  Tournament,
+  MIN_TOURNAMENT_PLAYERS,
+  MAX_TOURNAMENT_PLAYERS,
+  tournamentRoundCount,
+  roundName,
+  seedingOrder,
+  shuffleEntries,
+  matchTitle,
+  seriesScore,
+  matchSummary,
+} from './Tournament.js';
+export type { BracketMatch, TournamentEntry, TournamentPlayer, TournamentRound } from './Tournament.js';
+export { BotGame, BOT_GAME_TICK_LIMIT } from './BotGame.js';
+export { TournamentScreen, SERIES_LENGTHS, playerLabel } from './TournamentScreen.js';
+export type { TournamentScreenHandlers, TournamentSetup, TournamentSeeding } from './TournamentScreen.js';
@@ -0,0 +1,111 @@
+// --- TRAINING DRILLS (JSON Definitions) ---
+// A drill is a solo practice session: a launcher fires `shots` balls at the player, each judged
+// a success or failure by the drill's objective. Drills are plain JSON so new ones can be
+// written (and loaded from the menu) without code.
+
+// Fixed value, or [min, max] picked per shot
+export type DrillRange = number | [number, number];
+
+// Sport physics the drill reuses
+export type DrillSport = 'SOCCER' | 'VOLLEYBALL';
+
+// - defend: survive each shot without conceding in your goal (soccer)
+// - return: send the ball back over the net so it lands on the far side (volleyball)
+// - target: play the ball into the target circle before the next shot
+export type DrillObjective = 'defend' | 'return' | 'target';
+
+export interface LauncherSpec {
+  x: DrillRange;
+  y: DrillRange;
+  speed: DrillRange; // px per tick
+  angle: DrillRange; // degrees: 0 = right, 90 = straight up, 180 = left
+  intervalTicks: number; // time allowed per shot before the next one is fired
+}
+
+export interface DrillTarget {
+  x: number;
+  y: number;
+  radius: number;
+}
+
+export interface DrillDefinition {
+  id: string;
+  name: string;
+  sport: DrillSport;
+  objective: DrillObjective;
+  shots: number;
+  passScore: number; // successes needed to pass
+  seed?: number; // launcher randomness (same seed = same shots, so replays stay exact)
+  playerX?: number; // player start position (default: the sport's kickoff spot)
+  launcher: LauncherSpec;
+  target?: DrillTarget;
+}
+
+const SPORTS: readonly DrillSport[] = ['SOCCER', 'VOLLEYBALL'];
+const OBJECTIVES: readonly DrillObjective[] = ['defend', 'return', 'target'];
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+// A finite number, or a [min, max] pair with min <= max
+function isRange(value: unknown): value is DrillRange {
+  if (isFiniteNumber(value)) return true;
+  return Array.isArray(value) && value.length === 2 && value.every(isFiniteNumber) && value[0] <= value[1];
+}
+
+function isInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value);
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return isInteger(value) && value > 0;
+}
+
+// Validate a parsed drill (built-in JSON or a loaded file)
+export function validateDrill(data: unknown): DrillDefinition {
+  const drill = data as Partial<DrillDefinition>;
+  if (!drill || typeof drill.id !== 'string' || typeof drill.name !== 'string') {
+    throw new Error('Malformed drill: missing id or name');
+  }
+  if (!drill.sport || !SPORTS.includes(drill.sport)) {
+    throw new Error(`Drill ${drill.id}: unknown sport ${drill.sport}`);
+  }
+  if (!drill.objective || !OBJECTIVES.includes(drill.objective)) {
+    throw new Error(`Drill ${drill.id}: unknown objective ${drill.objective}`);
+  }
+  if (!isPositiveInteger(drill.shots) || !isInteger(drill.passScore) || drill.passScore < 0 || drill.passScore > drill.shots) {
+    throw new Error(`Drill ${drill.id}: shots must be a positive integer and passScore an integer from 0 to shots`);
+  }
+  if (drill.seed !== undefined && !isInteger(drill.seed)) {
+    throw new Error(`Drill ${drill.id}: seed must be an integer`);
+  }
+  if (drill.playerX !== undefined && !isFiniteNumber(drill.playerX)) {
+    throw new Error(`Drill ${drill.id}: playerX must be a number`);
+  }
+  const launcher = drill.launcher;
+  if (!launcher || ![launcher.x, launcher.y, launcher.speed, launcher.angle].every(isRange) || !isPositiveInteger(launcher.intervalTicks)) {
+    throw new Error(`Drill ${drill.id}: malformed launcher`);
+  }
+  if (drill.objective === 'target') {
+    const target = drill.target;
+    if (!target || ![target.x, target.y, target.radius].every(isFiniteNumber) || target.radius <= 0) {
+      throw new Error(`Drill ${drill.id}: target objective needs a target { x, y, radius } with a positive radius`);
+    }
+  }
+  return drill as DrillDefinition;
+}
+
+export function parseDrill(text: string): DrillDefinition {
+  return validateDrill(JSON.parse(text));
+}
+
+// Per-shot seed for the launcher's random numbers: same drill seed and shot number, same shot
+export function shotSeed(seed: number, shot: number): number {
+  return Math.imul(seed, 0x9e3779b1) + shot;
+}
+
+export function pickInRange(range: DrillRange, random: () => number): number {
+  if (typeof range === 'number') return range;
+  return range[0] + (range[1] - range[0]) * random();
+}
@@ -0,0 +1,157 @@
+import * as Base from '../base/index.js';
+import * as AI from '../ai/index.js';
+import type { Match } from '../base/Match.js';
+import { SOCCER_MODE } from '../soccer/index.js';
+import { VOLLEYBALL_MODE } from '../volleyball/index.js';
+import { shotSeed, pickInRange, type DrillDefinition } from './Drill.js';
+
+type SlimeConstructor = new (...args: any[]) => Base.SlimeBase & { applyBoundaries(): void };
+
+// Practice alone: team 2 sits on the bench, off court, where it never moves, draws or touches the ball.
+function withBenchedOpponent<T extends SlimeConstructor>(SportSlime: T): T {
+  return class extends SportSlime {
+    reset(): void {
+      super.reset();
+      if (this.isPlayer1) return;
+      this.x = this.prevX = -10 * Base.CONFIG.internalWidth;
+    }
+
+    update(input: Base.InputSource): void {
+      if (this.isPlayer1) super.update(input);
+    }
+
+    draw(ctx: CanvasRenderingContext2D, ball: Base.BallBase | null, showGrabState?: boolean, alpha?: number): void {
+      if (this.isPlayer1) super.draw(ctx, ball, showGrabState, alpha);
+    }
+  };
+}
+
+// "AI" for the benched opponent slot
+export class BenchAI extends AI.AIBase {
+  private readonly input = new AI.VirtualInput();
+
+  getInput(): Base.InputSource {
+    return this.input;
+  }
+}
+
+const SPORT_MODES = { SOCCER: SOCCER_MODE, VOLLEYBALL: VOLLEYBALL_MODE };
+
+// Mode id a drill is registered under (and stored in replays)
+export function drillModeId(drill: DrillDefinition): Base.GameMode {
+  return `DRILL:${drill.id}`;
+}
+
+// --- DRILL MODE (One Solo Practice Session per Drill) ---
+// The sport's own slime, ball and arena, with a launcher instead of an opponent.
+// match.score1/score2 count successes/failures; modeState tracks the current shot.
+// Every round reset fires the next shot; the session ends after drill.shots shots.
+export function createDrillMode(drill: DrillDefinition): Base.GameModeDefinition {
+  const sport = SPORT_MODES[drill.sport];
+  const launcher = drill.launcher;
+  const ballR = (match: Match) => match.rules.ballRadius;
+
+  function fireShot(match: Match): void {
+    const s = match.modeState;
+    const random = AI.seededRandom(shotSeed(drill.seed ?? 1, s.shot));
+    s.shot++;
+    s.shotStartTick = match.clock.tick;
+    s.launchX = pickInRange(launcher.x, random);
+    s.launchY = pickInRange(launcher.y, random);
+    const speed = pickInRange(launcher.speed, random);
+    const angle = (pickInRange(launcher.angle, random) * Math.PI) / 180;
+
+    if (drill.playerX !== undefined) match.p1.placeAt(drill.playerX);
+    match.ball.placeAt(s.launchX, s.launchY);
+    match.ball.vx = Math.cos(angle) * speed;
+    match.ball.vy = -Math.sin(angle) * speed;
+  }
+
+  function recordShot(match: Match, success: boolean): void {
+    if (success) match.score1++; else match.score2++;
+    match.events.emit('drillShot', {
+      shot: match.modeState.shot,
+      success,
+      successes: match.score1,
+      failures: match.score2,
+    });
+    if (match.modeState.shot >= drill.shots) {
+      match.endMatch(match.score1 >= drill.passScore ? 1 : 2);
+    } else {
+      match.resetRound();
+    }
+  }
+
+  function hitsTarget(match: Match): boolean {
+    const target = drill.target;
+    if (!target) return false;
+    return Math.hypot(match.ball.x - target.x, match.ball.y - target.y) <= target.radius + ballR(match);
+  }
+
+  // Shot clock and target checks; a shot still live when its time is up counts as a save
+  // when defending and as a failure otherwise.
+  function onDrillStep(match: Match): void {
+    if (match.isOver()) return;
+    if (drill.objective === 'target' && hitsTarget(match)) {
+      recordShot(match, true);
+    } else if (match.clock.tick - match.modeState.shotStartTick >= launcher.intervalTicks) {
+      recordShot(match, drill.objective === 'defend');
+    }
+  }
+
+  // Goals and landed balls: side 1 scoring means the ball ended up away from the player (a clearance
+  // into the far goal, a return landing over the net). For target drills only the target counts.
+  function handleDrillPoint(match: Match, scoringPlayer: 1 | 2): boolean {
+    recordShot(match, drill.objective !== 'target' && scoringPlayer === 1);
+    return true;
+  }
+
+  function drawLauncherAndTarget(ctx: CanvasRenderingContext2D, match: Match, alpha: number): void {
+    sport.drawOverlay?.(ctx, match, alpha);
+    ctx.save();
+    const target = drill.target;
+    if (target) {
+      ctx.strokeStyle = '#e74c3c';
+      ctx.lineWidth = 4;
+      ctx.setLineDash([8, 6]);
+      ctx.beginPath();
+      ctx.arc(target.x, target.y, target.radius, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+    // Launcher muzzle at the current shot's origin
+    ctx.setLineDash([]);
+    ctx.fillStyle = 'rgba(44, 62, 80, 0.7)';
+    ctx.beginPath();
+    ctx.arc(match.modeState.launchX, match.modeState.launchY, ballR(match) + 6, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.restore();
+  }
+
+  return {
+    id: drillModeId(drill),
+    name: drill.name,
+    emoji: sport.emoji,
+    solo: true,
+    SlimeClass: withBenchedOpponent(sport.SlimeClass),
+    BallClass: sport.BallClass,
+    drawArena: sport.drawArena,
+    drawOverlay: drawLauncherAndTarget,
+    // Serving from the player resets any per-rally ball state before the launcher takes over
+    servingSlime: (match) => match.p1,
+    nextServer: () => 1,
+    checkWinner: () => null,
+    createModeState: () => ({ shot: 0, shotStartTick: 0, launchX: 0, launchY: 0 }),
+    handlePoint: handleDrillPoint,
+    onStep: onDrillStep,
+    onRoundReset: fireShot,
+    scoreDisplay: (match) => ({
+      p1: `✓ ${match.score1}`,
+      p2: `✗ ${match.score2}`,
+      center: `${drill.name} · Shot ${match.modeState.shot}/${drill.shots}`,
+    }),
+    resultText: (match) => (match.winner === 1
+      ? `Drill Passed! ${match.score1}/${drill.shots}`
+      : `Drill Failed: ${match.score1}/${drill.shots} (need ${drill.passScore})`),
+    createAI: (rules) => new BenchAI(rules),
+  };
+}
@@ -0,0 +1,9 @@
+import { validateDrill, type DrillDefinition } from './Drill.js';
+import drillData from './drills.json';
+
+export { parseDrill, validateDrill } from './Drill.js';
+export type { DrillDefinition, DrillObjective, DrillRange, DrillSport, DrillTarget, LauncherSpec } from './Drill.js';
+export { createDrillMode, drillModeId, BenchAI } from './DrillMode.js';
+
+// Drills offered in the Training menu
+export const BUILT_IN_DRILLS: readonly DrillDefinition[] = (drillData as unknown[]).map(validateDrill);
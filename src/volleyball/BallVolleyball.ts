@@ -1,9 +1,17 @@
 import * as Base from '../base/index.js';
 
 // --- BALL VOLLEYBALL (Volleyball-Specific Logic) ---
+// Counts touches per side between net crossings. With VOLLEYBALL_MAX_TOUCHES set, a side that
+// touches the ball more often than that, or (team play) a slime touching it twice in a row,
+// faults and the other side wins the point.
 export class BallVolleyball extends Base.BallBase {
-  constructor(game: Base.GameInterface) {
-    super();
+  touchSide: 0 | 1 | 2 = 0; // Side whose touches are being counted (0 = none since the last crossing)
+  touches: number = 0;
+  lastTouchSlot: number = -1; // Team slot of the last slime to touch it on touchSide
+  lastTouchTick: number = 0;
+
+  constructor(game: Base.GameInterface, clock: Base.SimClock, rules: Base.RuleSet) {
+    super(clock, rules);
     this.game = game;
   }
 
@@ -16,55 +24,99 @@ export class BallVolleyball extends Base.BallBase {
     this.prevY = this.y;
     this.vx = 0;
     this.vy = 0;
-    this.frozenUntil = Date.now() + 200; // 200ms delay before ball starts falling
+    this.clearTouches();
+    this.freezeFor(this.rules.ballResetFreezeTicks); // short delay before ball starts falling
+  }
+
+  getState(): Base.BallState {
+    return {
+      ...super.getState(),
+      modeState: {
+        touchSide: this.touchSide,
+        touches: this.touches,
+        lastTouchSlot: this.lastTouchSlot,
+        lastTouchTick: this.lastTouchTick,
+      },
+    };
+  }
+
+  setState(state: Readonly<Base.BallState>): void {
+    super.setState(state);
+    const rally = state.modeState ?? {};
+    this.touchSide = (rally.touchSide ?? 0) as 0 | 1 | 2;
+    this.touches = rally.touches ?? 0;
+    this.lastTouchSlot = rally.lastTouchSlot ?? -1;
+    this.lastTouchTick = rally.lastTouchTick ?? 0;
+  }
+
+  private clearTouches(): void {
+    this.touchSide = 0;
+    this.touches = 0;
+    this.lastTouchSlot = -1;
+    this.lastTouchTick = 0;
+  }
+
+  // Count a touch by `slime`. Returns true on a fault (the point is scored and the ball reset,
+  // so the caller must not go on to move it).
+  private touch(slime: Base.SlimeBase): boolean {
+    const side = slime.isPlayer1 ? 1 : 2;
+    const tick = this.clock.tick;
+    const sameSlime = side === this.touchSide && slime.slot.index === this.lastTouchSlot;
+    if (sameSlime && tick - this.lastTouchTick <= Base.TOUCH_MERGE_TICKS) {
+      this.lastTouchTick = tick; // Still the same contact
+      return false;
+    }
+    if (side !== this.touchSide) {
+      this.touchSide = side;
+      this.touches = 0;
+    }
+    this.touches++;
+    this.lastTouchSlot = slime.slot.index;
+    this.lastTouchTick = tick;
+
+    const maxTouches = this.rules.VOLLEYBALL_MAX_TOUCHES;
+    if (maxTouches <= 0) return false;
+    if (sameSlime && slime.slot.size > 1) {
+      this.fault(side, 'doubleTouch');
+      return true;
+    }
+    if (this.touches > maxTouches) {
+      this.fault(side, 'tooManyTouches');
+      return true;
+    }
+    return false;
+  }
+
+  private fault(side: 1 | 2, reason: Base.GameEvents['fault']['reason']): void {
+    this.emit('fault', { side, reason });
+    this.game?.scorePoint(side === 1 ? 2 : 1);
   }
 
   checkGameGeometry(): void {
     if (!this.game) return;
     
-    const r = Base.CONFIG.ballRadius; 
+    const r = this.rules.ballRadius; 
     const groundY = Base.CONFIG.internalHeight - Base.CONFIG.groundHeight;
-    const netW = Base.CONFIG.VOLLEYBALL_NET_W;
-    const netH = Base.CONFIG.VOLLEYBALL_NET_H;
+    const netW = this.rules.VOLLEYBALL_NET_W;
+    const netH = this.rules.VOLLEYBALL_NET_H;
     const netX = Base.CONFIG.internalWidth / 2;
     const halfNetW = netW / 2;
     const netTopY = groundY - netH;
 
-    // Ground Scoring
-    if (this.y + r > groundY) {
-      if (this.x < netX) this.game.scorePoint(2); 
-      else this.game.scorePoint(1); 
-      return;
-    }
-
     // Side Walls
-    if (this.x < r) { this.x = r; this.vx *= -1; }
-    if (this.x > Base.CONFIG.internalWidth - r) { this.x = Base.CONFIG.internalWidth - r; this.vx *= -1; }
+    if (this.x < r) { this.x = r; this.vx *= -1; this.emit('wallBounce', { side: 'left' }); }
+    if (this.x > Base.CONFIG.internalWidth - r) { this.x = Base.CONFIG.internalWidth - r; this.vx *= -1; this.emit('wallBounce', { side: 'right' }); }
     
     // Net Collision Logic
-    const capCenterY = netTopY + halfNetW;
-    const dx = this.x - netX;
-    const dy = this.y - capCenterY;
-    const distToCap = Math.hypot(dx, dy);
-
-    // Net cap collision
-    if (this.y < capCenterY && distToCap < r + halfNetW) {
-      this.resolveCircleCollision(netX, capCenterY, halfNetW);
-      return;
-    }
+    this.resolveNetCollision(netX, halfNetW, netTopY, groundY);
 
-    // Net post collision 
-    if (this.y >= capCenterY) {
-      const leftEdge = netX - halfNetW - r;
-      const rightEdge = netX + halfNetW + r;
-      if (this.prevX <= leftEdge && this.x > leftEdge) {
-        this.x = leftEdge;
-        this.vx *= -0.7;
-      }
-      else if (this.prevX >= rightEdge && this.x < rightEdge) {
-        this.x = rightEdge;
-        this.vx *= -0.7;
-      }
+    // Crossing to the other side starts a fresh touch count
+    if (this.touchSide !== 0 && (this.x < netX ? 1 : 2) !== this.touchSide) this.clearTouches();
+
+    // Ground Scoring
+    if (this.y + r > groundY) {
+      if (this.x < netX) this.game.scorePoint(2); 
+      else this.game.scorePoint(1); 
     }
   }
 
@@ -72,12 +124,14 @@ export class BallVolleyball extends Base.BallBase {
   // BUT: like soccer, we narrow the "directly on top" (stable head juggle) window.
   // Unlike soccer, we do NOT add any horizontal drift/variance here.
   resolveSlimeHit(slime: Base.SlimeBase, angle: number, isStomp: boolean, dx: number): void {
-    const popForce = Base.CONFIG.popForce;
+    if (this.touch(slime)) return;
+    const popForce = this.rules.popForce;
 
     // Volleyball: make "perfect on-head" control harder by narrowing the threshold.
     // (Base is 0.30; soccer uses 0.10; we match soccer's strictness here.)
-    const horizontalThreshold = Base.CONFIG.slimeRadius * 0.10;
+    const horizontalThreshold = this.rules.slimeRadius * 0.10;
     const isDirectlyOnTop = Math.abs(dx) < horizontalThreshold;
+    this.emit('hit', { slime, isStomp, onTop: isDirectlyOnTop });
 
     const slimeHorizontalMomentum = slime.vx * 1.5;
 
@@ -108,18 +162,24 @@ export class BallVolleyball extends Base.BallBase {
 
     // Clamp AFTER collision resolution too (same as base).
     const postHitSpeed = Math.hypot(this.vx, this.vy);
-    if (postHitSpeed > Base.CONFIG.ballMaxSpeed) {
-      const scale = Base.CONFIG.ballMaxSpeed / postHitSpeed;
+    if (postHitSpeed > this.rules.ballMaxSpeed) {
+      const scale = this.rules.ballMaxSpeed / postHitSpeed;
       this.vx *= scale;
       this.vy *= scale;
     }
   }
   
-  draw(ctx: CanvasRenderingContext2D): void {
-    const r = Base.CONFIG.ballRadius;
+  catchBy(slime: Base.SlimeBase): void {
+    if (this.touch(slime)) return;
+    super.catchBy(slime);
+  }
+
+  draw(ctx: CanvasRenderingContext2D, alpha: number = 1): void {
+    const r = this.rules.ballRadius;
+    const { x, y } = this.interpolatedPosition(alpha);
     // Volleyball details (Orange)
     ctx.beginPath();
-    ctx.arc(this.x, this.y, r, 0, Math.PI * 2);
+    ctx.arc(x, y, r, 0, Math.PI * 2);
     ctx.fillStyle = 'hsl(36, 100%, 50%)';
     ctx.fill();
     ctx.strokeStyle = '#d35400';
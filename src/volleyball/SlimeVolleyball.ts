@@ -2,14 +2,14 @@ import * as Base from '../base/index.js';
 
 // --- SLIME VOLLEYBALL (Half Court / Net Boundaries) ---
 export class SlimeVolleyball extends Base.SlimeBase {
-  constructor(isPlayer1: boolean) {
-    super(isPlayer1, isPlayer1 ? '#e74c3c' : '#2ecc71');
+  constructor(isPlayer1: boolean, clock: Base.SimClock, rules: Base.RuleSet, slot?: Base.TeamSlot) {
+    super(isPlayer1, isPlayer1 ? '#e74c3c' : '#2ecc71', clock, rules, slot);
   }
 
   applyBoundaries(): void {
-    const r = Base.CONFIG.slimeRadius; 
+    const r = this.rules.slimeRadius; 
     const netX = Base.CONFIG.internalWidth / 2;
-    const netW = Base.CONFIG.VOLLEYBALL_NET_W / 2;
+    const netW = this.rules.VOLLEYBALL_NET_W / 2;
     
     if (this.isPlayer1) {
       // Must stay left of the net
@@ -1,21 +1,26 @@
 import * as Base from '../base/index.js';
 import * as AI from '../ai/index.js';
-import { VolleyballRolloutSimulator, type VolleyballWorldSnapshot, type P2Action } from './VolleyballRolloutSimulator.js';
-import { planFromInput } from '../ai/UserIntent.js';
+import { VOLLEYBALL_ROLLOUT } from './VolleyballRollout.js';
 
 type MoveDir = -1 | 0 | 1;
 type Mode = 'SERVE' | 'RECEIVE' | 'RALLY_ATTACK' | 'RALLY_DEFEND';
 
-// Volleyball-specific AI (P2 / right side):
-// - Win condition in rollout: ball hits left half ground (P2 point)
-// - Loss condition in rollout: ball hits right half ground (P1 point)
+// Volleyball-specific AI (either side; reasons in its SideFrame, so its own court is the right half):
+// - Win condition in rollout: ball hits the opponent's half (our point)
+// - Loss condition in rollout: ball hits our half (their point)
 // Strategy:
 // - When ball is on our side: get "behind" it (to the right) and hit it left over/into opponent court.
 // - When ball is on opponent side: position near the net to receive/contest the crossing.
 // - Use short input rollouts to avoid conceding on our side and to prefer winning hits.
+// The difficulty sets how late and how accurately it sees the ball, how far its rollouts look,
+// how many plans they try and how deep it searches move sequences (PlanSearch), and its strike
+// cooldown.
 export class VolleyballAI extends AI.AIBase {
   private input = new AI.VirtualInput();
-  private rollout = new VolleyballRolloutSimulator();
+  private rollout = new AI.RolloutSimulator(VOLLEYBALL_ROLLOUT, this.rules);
+  private search = new AI.PlanSearch(this.rollout, this.difficulty.planSearch);
+  // Best plan of the last decision and its tick (warm-starts the next search)
+  private lastPlan: { plan: AI.InputPlan; tick: number } | null = null;
   private tick = 0;
 
   private moveDir: MoveDir = 0;
@@ -41,31 +46,42 @@ export class VolleyballAI extends AI.AIBase {
   private readonly dirSwitchDebounceTicks = 8; // ~133ms @ 60Hz
 
   // "Touch" heuristics (used for striking/jumping decisions)
-  private readonly touchDist = Base.CONFIG.slimeRadius + Base.CONFIG.ballRadius + 18;
+  private readonly touchDist = this.rules.slimeRadius + this.rules.ballRadius + 18;
   private readonly touchMaxBallHeight = 190; // px above ground
-  private readonly strikeCooldownTicks = 26; // ~430ms @ 60Hz (volleyball rally pace)
+  private readonly strikeCooldownTicks = this.scaledCooldown(26); // ~430ms @ 60Hz at Normal (volleyball rally pace)
   private readonly maxTouchHoldTicks = 42; // ~700ms @ 60Hz (avoid infinite head juggling)
-  private readonly verticalBounceXThreshold = Base.CONFIG.slimeRadius * 0.10; // match narrow "on-top" window
+  private readonly verticalBounceXThreshold = this.rules.slimeRadius * 0.10; // match narrow "on-top" window
+
+  constructor(rules: Base.RuleSet, difficulty?: AI.AIDifficulty, seed?: number) {
+    super(rules, difficulty, seed);
+  }
 
   getInput(slime: Base.SlimeBase, ball: Base.BallBase, opponent: Base.SlimeBase, opponentInput: Base.InputSource): Base.InputSource {
+    ball = this.perceive(ball);
     this.tick++;
     const tick = this.tick;
 
+    // Ball and own position in our side's frame
+    const frame = new AI.SideFrame(slime);
+    const ballX = frame.x(ball.x);
+    const ballVx = frame.vx(ball.vx);
+    const selfX = frame.x(slime.x);
+
     const groundY = Base.CONFIG.internalHeight - Base.CONFIG.groundHeight;
     const ballHeightAboveGround = groundY - ball.y;
 
     const netX = Base.CONFIG.internalWidth / 2;
-    const halfNetW = Base.CONFIG.VOLLEYBALL_NET_W / 2;
+    const halfNetW = this.rules.VOLLEYBALL_NET_W / 2;
 
-    // P2 boundaries (right half)
-    const minX = netX + halfNetW + Base.CONFIG.slimeRadius + 1;
-    const maxX = Base.CONFIG.internalWidth - Base.CONFIG.slimeRadius - 1;
+    // Our half (the right one in our frame)
+    const minX = netX + halfNetW + this.rules.slimeRadius + 1;
+    const maxX = Base.CONFIG.internalWidth - this.rules.slimeRadius - 1;
 
-    const ballOnOurSide = ball.x >= netX;
-    const ballNearNet = Math.abs(ball.x - netX) <= 55;
+    const ballOnOurSide = ballX >= netX;
+    const ballNearNet = Math.abs(ballX - netX) <= 55;
 
     // --- Track net crossings and detect "near-vertical self-pop" events ---
-    const side: 'LEFT' | 'RIGHT' = ball.x < netX ? 'LEFT' : 'RIGHT';
+    const side: 'LEFT' | 'RIGHT' = ballX < netX ? 'LEFT' : 'RIGHT';
     if (this.lastBallSide && side !== this.lastBallSide) {
       // Once the ball crosses the net, reset the anti-juggle constraints.
       this.verticalSelfPopCountSinceCross = 0;
@@ -74,9 +90,8 @@ export class VolleyballAI extends AI.AIBase {
     this.lastBallSide = side;
 
     // Detect serve/freeze (volleyball reset behavior)
-    const now = Date.now();
-    const isFrozen = now < ball.frozenUntil;
-    const timeToUnfreeze = ball.frozenUntil - now;
+    const isFrozen = ball.isFrozen();
+    const ticksToUnfreeze = ball.frozenUntil - ball.clock.tick;
 
     // Serve follow-through: right after the ball unfreezes on our side, stay in SERVE mode briefly
     // so we actively convert the drop into an attack rather than drifting into a vertical-juggle.
@@ -95,7 +110,7 @@ export class VolleyballAI extends AI.AIBase {
     }
 
     // Touch tracking (for jump timing & spam reduction)
-    const selfDist = Math.hypot(ball.x - slime.x, ball.y - slime.y);
+    const selfDist = Math.hypot(ballX - selfX, ball.y - slime.y);
     const canTouchBall = selfDist <= this.touchDist && ballHeightAboveGround <= this.touchMaxBallHeight;
     if (canTouchBall) {
       if (this.touchingSinceTick == null) this.touchingSinceTick = tick;
@@ -117,8 +132,8 @@ export class VolleyballAI extends AI.AIBase {
       ballOnOurSide
     ) {
       const vyFlipUp = this.lastBallVy > 0.6 && ball.vy < -2.2;
-      const nearVertical = Math.abs(ball.vx) < 0.55;
-      const centered = Math.abs(ball.x - slime.x) < (this.verticalBounceXThreshold * 1.25);
+      const nearVertical = Math.abs(ballVx) < 0.55;
+      const centered = Math.abs(ballX - selfX) < (this.verticalBounceXThreshold * 1.25);
       const close = selfDist <= (this.touchDist + 10) && ballHeightAboveGround <= (this.touchMaxBallHeight + 15);
 
       if (vyFlipUp && nearVertical && centered && close) {
@@ -129,27 +144,27 @@ export class VolleyballAI extends AI.AIBase {
     }
 
     // Update stored ball state for next tick's detection.
-    this.lastBallX = ball.x;
+    this.lastBallX = ballX;
     this.lastBallY = ball.y;
-    this.lastBallVx = ball.vx;
+    this.lastBallVx = ballVx;
     this.lastBallVy = ball.vy;
 
     // --- Choose a horizontal target ---
-    let targetX = slime.x;
+    let targetX = selfX;
     if (mode === 'SERVE') {
       // Stand under the ball; jump right as it becomes active so we "serve" it over the net.
-      targetX = clamp(ball.x + 12, minX, maxX);
+      targetX = clamp(ballX + 12, minX, maxX);
     } else if (mode === 'RECEIVE') {
       // Get ready near the net so we can contest the crossing.
       // If ball is moving toward our side, hug net; otherwise center up.
-      const comingToUs = ball.vx > 0.5 || (ballNearNet && ball.vx > -0.2);
+      const comingToUs = ballVx > 0.5 || (ballNearNet && ballVx > -0.2);
       targetX = comingToUs ? (netX + halfNetW + 65) : (Base.CONFIG.internalWidth * 0.78);
       targetX = clamp(targetX, minX, maxX);
     } else {
       // RALLY on our side:
       // Default: position slightly to the right of the ball so contact sends it left.
       const behindBallOffset = mode === 'RALLY_ATTACK' ? 42 : 22;
-      targetX = clamp(ball.x + behindBallOffset, minX, maxX);
+      targetX = clamp(ballX + behindBallOffset, minX, maxX);
     }
 
     // --- Decide strike/jump ---
@@ -161,9 +176,9 @@ export class VolleyballAI extends AI.AIBase {
       mode === 'SERVE' &&
       canStrike &&
       onGround &&
-      timeToUnfreeze <= 85 &&
-      timeToUnfreeze >= -10 &&
-      Math.abs(ball.x - slime.x) < 40;
+      ticksToUnfreeze <= 5 &&
+      ticksToUnfreeze >= -1 &&
+      Math.abs(ballX - selfX) < 40;
 
     // If we missed the perfect unfreeze window, still jump-hit the first playable falling ball on serve.
     const serveBallHittable =
@@ -174,10 +189,10 @@ export class VolleyballAI extends AI.AIBase {
       ball.vy > 0.3 &&
       ballHeightAboveGround <= 175 &&
       ballHeightAboveGround >= 35 &&
-      Math.abs(ball.x - slime.x) < 55;
+      Math.abs(ballX - selfX) < 55;
 
     // Rally hit: ball is on our side, in front (to our left), and at a hittable height.
-    const ballInFrontForHit = ball.x < slime.x - 8 && ballHeightAboveGround <= 170;
+    const ballInFrontForHit = ballX < selfX - 8 && ballHeightAboveGround <= 170;
     const shouldRallyHit =
       (mode === 'RALLY_ATTACK' || mode === 'RALLY_DEFEND') &&
       ballOnOurSide &&
@@ -211,26 +226,29 @@ export class VolleyballAI extends AI.AIBase {
     // Rollout-based selection: pick action (+ optional jump) that avoids conceding and prefers scoring.
     // BUT: if we've already produced a near-vertical self-pop on our side, force a decisive
     // "attack attempt" so we can't juggle vertically indefinitely.
-    const p1Plan = planFromInput(opponentInput, true);
+    const opponentPlan = AI.planFromInput(opponentInput, opponent.bindings);
 
-    let plan: { action: P2Action; jumpOnStep0: boolean };
-    const forcedAttackThisTick = this.mustAttemptAttack && ballOnOurSide && !isFrozen;
+    // With the touch rules on, juggling is a fault the rollouts already see as a lost point,
+    // so the forced attack is only needed under classic (unlimited touch) rules.
+    let plan: AI.PlayerPlan;
+    const touchRulesOn = this.rules.VOLLEYBALL_MAX_TOUCHES > 0;
+    const forcedAttackThisTick = !touchRulesOn && this.mustAttemptAttack && ballOnOurSide && !isFrozen;
     if (forcedAttackThisTick) {
       // Step to the right of the ball so the contact is off-center and sends it LEFT.
       const attackOffset = 62;
-      const attackTargetX = clamp(ball.x + attackOffset, minX, maxX);
+      const attackTargetX = clamp(ballX + attackOffset, minX, maxX);
       targetX = attackTargetX;
 
-      const error = attackTargetX - slime.x;
-      const action: P2Action = Math.abs(error) < 8 ? 'NONE' : (error > 0 ? 'RIGHT' : 'LEFT');
+      const error = attackTargetX - selfX;
+      const action: AI.MoveAction = Math.abs(error) < 8 ? 'NONE' : (error > 0 ? 'RIGHT' : 'LEFT');
 
       // Jump-hit the next falling, hittable ball to "attempt a point" (send over).
       const inAttackHeight = ballHeightAboveGround <= 185 && ballHeightAboveGround >= 45;
       const falling = ball.vy > 0.35;
-      const nearEnoughX = Math.abs(ball.x - slime.x) < 78;
+      const nearEnoughX = Math.abs(ballX - selfX) < 78;
       const jumpOnStep0 = canStrike && onGround && inAttackHeight && falling && nearEnoughX;
 
-      plan = { action, jumpOnStep0 };
+      plan = { action, jumpOnStep0, grabOrThrowOnStep0: false };
 
       // Once we actually attempt the attack (jump-hit), clear the constraint.
       if (jumpOnStep0) {
@@ -239,7 +257,7 @@ export class VolleyballAI extends AI.AIBase {
         this.verticalSelfPopCountSinceCross = 0;
       }
     } else {
-      plan = this.pickPlanByRollout(slime, opponent, ball, prefersJumpWithServe, p1Plan);
+      plan = this.pickPlanByRollout(frame, slime, opponent, ball, prefersJumpWithServe, opponentPlan);
       if (plan.jumpOnStep0 && onGround && canStrike) {
         this.lastStrikeTick = tick;
       }
@@ -247,13 +265,13 @@ export class VolleyballAI extends AI.AIBase {
 
     // If we're about to jump-hit, bias target to step into the ball from the right.
     if (plan.jumpOnStep0 && ballOnOurSide && !forcedAttackThisTick) {
-      targetX = clamp(ball.x + 30, minX, maxX);
+      targetX = clamp(ballX + 30, minX, maxX);
     }
 
     // --- Convert to virtual keys ---
     // Like soccer AI, we keep a smoothed dir state, but we always apply the rollout decision
     // as authoritative to match the simulated plan.
-    const errorX = targetX - slime.x;
+    const errorX = targetX - selfX;
     const absErrorX = Math.abs(errorX);
 
     if (this.moveDir !== 0 && absErrorX <= this.exitMoveThreshold) {
@@ -272,121 +290,126 @@ export class VolleyballAI extends AI.AIBase {
     }
 
     this.input.clear();
-    this.input.setKey('ArrowRight', plan.action === 'RIGHT');
-    this.input.setKey('ArrowLeft', plan.action === 'LEFT');
-    this.input.setKey('ArrowUp', plan.jumpOnStep0 && onGround);
+    const move = frame.action(plan.action);
+    this.input.setKey(slime.bindings.right, move === 'RIGHT');
+    this.input.setKey(slime.bindings.left, move === 'LEFT');
+    this.input.setKey(slime.bindings.jump, plan.jumpOnStep0 && onGround);
+    this.input.setKey(slime.bindings.grab, plan.grabOrThrowOnStep0);
 
     return this.input;
   }
 
   private pickPlanByRollout(
+    frame: AI.SideFrame,
     slime: Base.SlimeBase,
     opponent: Base.SlimeBase,
     ball: Base.BallBase,
     prefersJump: boolean,
-    p1Plan: ReturnType<typeof planFromInput>
-  ): { action: P2Action; jumpOnStep0: boolean } {
-    const snapshot: VolleyballWorldSnapshot = {
-      p1: { x: opponent.x, y: opponent.y, vx: opponent.vx, vy: opponent.vy },
-      p2: { x: slime.x, y: slime.y, vx: slime.vx, vy: slime.vy },
-      ball: { x: ball.x, y: ball.y, vx: ball.vx, vy: ball.vy },
-    };
-
-    const candidates: Array<{ action: P2Action; jumpOnStep0: boolean }> = [
-      { action: 'LEFT', jumpOnStep0: false },
-      { action: 'RIGHT', jumpOnStep0: false },
-      { action: 'NONE', jumpOnStep0: false },
+    opponentPlan: AI.PlayerPlan
+  ): AI.PlayerPlan {
+    const snapshot = frame.snapshot(slime, opponent, ball);
+
+    const candidates: Array<AI.PlayerPlan> = [
+      { action: 'LEFT', jumpOnStep0: false, grabOrThrowOnStep0: false },
+      { action: 'RIGHT', jumpOnStep0: false, grabOrThrowOnStep0: false },
+      { action: 'NONE', jumpOnStep0: false, grabOrThrowOnStep0: false },
     ];
     if (prefersJump) {
-      candidates.push({ action: 'LEFT', jumpOnStep0: true });
-      candidates.push({ action: 'RIGHT', jumpOnStep0: true });
-      candidates.push({ action: 'NONE', jumpOnStep0: true });
+      candidates.push({ action: 'LEFT', jumpOnStep0: true, grabOrThrowOnStep0: false });
+      candidates.push({ action: 'RIGHT', jumpOnStep0: true, grabOrThrowOnStep0: false });
+      candidates.push({ action: 'NONE', jumpOnStep0: true, grabOrThrowOnStep0: false });
     }
 
-    const horizon = 55; // ~0.9s
+    // Grab/throw variants: throw a held ball (in the direction we move), or try to catch a close one
+    if (this.grabIsRelevant(slime, ball, opponent)) {
+      candidates.push({ action: 'LEFT', jumpOnStep0: false, grabOrThrowOnStep0: true });
+      candidates.push({ action: 'RIGHT', jumpOnStep0: false, grabOrThrowOnStep0: true });
+      candidates.push({ action: 'NONE', jumpOnStep0: false, grabOrThrowOnStep0: true });
+    }
+
+    const horizon = this.scaledHorizon(55); // ~0.9s at Normal
     const netX = Base.CONFIG.internalWidth / 2;
     const groundY = Base.CONFIG.internalHeight - Base.CONFIG.groundHeight;
 
-    let best = candidates[0];
-    let bestScore = -Infinity;
+    const result = this.search.search({
+      snapshot,
+      horizon,
+      frame,
+      opponentPlan,
+      firstMoves: this.withinBudget(candidates),
+      warmStart: this.lastPlan?.tick === this.tick - 1 ? AI.shiftPlan(this.lastPlan.plan) : null,
+      evaluate: (res, plan) => {
+        const c = AI.firstMove(plan);
+        const end = frame.view(res.end);
+
+        if (res.verdict === 'loss') {
+          // Heavily penalize conceding on our side; prefer delaying if unavoidable
+          return -1_000_000 + (res.step ?? horizon);
+        }
 
-    for (const c of candidates) {
-      const res = this.rollout.simulate(snapshot, horizon, c, {
-        p1Plan: { action: p1Plan.action, jumpOnStep0: p1Plan.jumpOnStep0 }
-      });
+        let score = 0;
+        if (res.verdict === 'win') {
+          score += 100_000 - (res.step ?? horizon);
 
-      if (res.verdict === 'loss') {
-        // Heavily penalize conceding on our side; prefer delaying if unavoidable
-        const score = -1_000_000 + (res.step ?? horizon);
-        if (score > bestScore) { bestScore = score; best = c; }
-        continue;
-      }
-
-      let score = 0;
-      if (res.verdict === 'win') {
-        score += 100_000 - (res.step ?? horizon);
-
-        // While still scoring, prefer the landing point to be as far from the opponent as possible.
-        // (Opposition is P1 in the rollout state.)
-        score += Math.abs(res.end.ball.x - res.end.p1.x) * 14;
-      } else {
-        // No point yet: push ball to opponent side and keep it high on ours.
-        const endBallOnOppSide = res.end.ball.x < netX;
-        score += endBallOnOppSide ? 2600 : -900;
-
-        // Prefer leftward velocity (sending it over)
-        score += (-res.end.ball.vx) * 180;
-
-        // Penalize ball ending low on our side (likely to concede soon)
-        const endBallHeightAboveGround = groundY - res.end.ball.y;
-        if (!endBallOnOppSide) {
-          score -= Math.max(0, 95 - endBallHeightAboveGround) * 22;
+          // While still scoring, prefer the landing point to be as far from the opponent as possible.
+          score += Math.abs(end.ball.x - end.opponent.x) * 14;
         } else {
-          // If we're already on their side, also prefer positions farther from the opponent.
-          score += Math.abs(res.end.ball.x - res.end.p1.x) * 2.2;
+          // No point yet: push ball to opponent side and keep it high on ours.
+          const endBallOnOppSide = end.ball.x < netX;
+          score += endBallOnOppSide ? 2600 : -900;
+
+          // Prefer leftward velocity (sending it over)
+          score += (-end.ball.vx) * 180;
+
+          // Penalize ball ending low on our side (likely to concede soon)
+          const endBallHeightAboveGround = groundY - end.ball.y;
+          if (!endBallOnOppSide) {
+            score -= Math.max(0, 95 - endBallHeightAboveGround) * 22;
+          } else {
+            // If we're already on their side, also prefer positions farther from the opponent.
+            score += Math.abs(end.ball.x - end.opponent.x) * 2.2;
+          }
         }
-      }
 
-      // Always value "getting to the ball" on our side.
-      score -= Math.abs(res.end.ball.x - res.end.p2.x) * 3.8;
-
-      // Strong anti-stall / anti-wall-loop:
-      // Progressively penalize plans that go a long time without the ball crossing the net.
-      // This makes "hit it across" plans dominate, especially after repeated non-cross periods.
-      const endNoCross = res.metrics.endNoCrossTicks;
-      const maxNoCross = res.metrics.maxNoCrossTicks;
-      score -= (endNoCross * endNoCross) * 18;
-      score -= (maxNoCross * maxNoCross) * 4;
-      if (res.metrics.netCrossings === 0) score -= 9000;
-      score += res.metrics.netCrossings * 650;
-
-      // Anti-juggle planning: LARGE negative reward for "vertical bounce" outcomes:
-      // ball stays on our side, ends up high and centered above P2, with ~0 horizontal velocity.
-      const endBallOnOurSide = res.end.ball.x >= netX;
-      if (endBallOnOurSide) {
-        const endDx = res.end.ball.x - res.end.p2.x;
-        const endHeightAboveGround = groundY - res.end.ball.y;
-        const centered = Math.abs(endDx) < (this.verticalBounceXThreshold * 1.2);
-        const nearVertical = Math.abs(res.end.ball.vx) < 0.35;
-        // Penalize even at medium heights (serve bounce loops often sit ~60-120px above ground).
-        const notOnGround = endHeightAboveGround > 40;
-        if (notOnGround && centered && nearVertical) {
-          score -= 20000;
-          // Extra penalty when the ball is still fairly high (more likely to keep looping).
-          if (endHeightAboveGround > 110) score -= 5000;
+        // Always value "getting to the ball" on our side.
+        score -= Math.abs(end.ball.x - end.self.x) * 3.8;
+
+        // Strong anti-stall / anti-wall-loop:
+        // Progressively penalize plans that go a long time without the ball crossing the net.
+        // This makes "hit it across" plans dominate, especially after repeated non-cross periods.
+        const endNoCross = res.metrics.endNoCrossTicks;
+        const maxNoCross = res.metrics.maxNoCrossTicks;
+        score -= (endNoCross * endNoCross) * 18;
+        score -= (maxNoCross * maxNoCross) * 4;
+        if (res.metrics.netCrossings === 0) score -= 9000;
+        score += res.metrics.netCrossings * 650;
+
+        // Anti-juggle planning: LARGE negative reward for "vertical bounce" outcomes:
+        // ball stays on our side, ends up high and centered above us, with ~0 horizontal velocity.
+        const endBallOnOurSide = end.ball.x >= netX;
+        if (endBallOnOurSide) {
+          const endDx = end.ball.x - end.self.x;
+          const endHeightAboveGround = groundY - end.ball.y;
+          const centered = Math.abs(endDx) < (this.verticalBounceXThreshold * 1.2);
+          const nearVertical = Math.abs(end.ball.vx) < 0.35;
+          // Penalize even at medium heights (serve bounce loops often sit ~60-120px above ground).
+          const notOnGround = endHeightAboveGround > 40;
+          if (notOnGround && centered && nearVertical) {
+            score -= 20000;
+            // Extra penalty when the ball is still fairly high (more likely to keep looping).
+            if (endHeightAboveGround > 110) score -= 5000;
+          }
         }
-      }
 
-      // Mild jump cost (don’t spam).
-      if (c.jumpOnStep0) score -= 35;
-
-      if (score > bestScore) {
-        bestScore = score;
-        best = c;
-      }
-    }
+        // Mild jump cost (don’t spam).
+        score -= 35 * AI.countJumps(plan);
+        if (c.grabOrThrowOnStep0) score -= 30;
+        return score;
+      },
+    });
 
-    return best;
+    this.lastPlan = result && { plan: result.plan, tick: this.tick };
+    return result?.first ?? candidates[0];
   }
 }
 
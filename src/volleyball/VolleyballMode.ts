@@ -0,0 +1,64 @@
+import * as Base from '../base/index.js';
+import type { Match } from '../base/Match.js';
+import { SlimeVolleyball } from './SlimeVolleyball.js';
+import { BallVolleyball } from './BallVolleyball.js';
+import { VolleyballAI } from './VolleyballAI.js';
+import {
+  createVolleyballState, onVolleyballPoint, checkVolleyballWinner, nextVolleyballServer,
+  handleVolleyballPoint, volleyballResultText, playerOnSide,
+} from './VolleyballScoring.js';
+
+function drawVolleyballNet(ctx: CanvasRenderingContext2D, groundY: number, rules: Base.RuleSet): void {
+  const netW = rules.VOLLEYBALL_NET_W;
+  const netH = rules.VOLLEYBALL_NET_H;
+
+  ctx.fillStyle = '#fff';
+  const netX = (Base.CONFIG.internalWidth - netW) / 2;
+  const netY = groundY - netH;
+  ctx.fillRect(netX, netY, netW, netH);
+
+  ctx.strokeStyle = '#000';
+  ctx.strokeRect(netX, netY, netW, netH);
+}
+
+// Set points labelled with the player on each side, plus the sets and the current side's
+// touch count when those rules are on
+function volleyballScoreDisplay(match: Match): Base.ScoreDisplay {
+  const s = match.modeState;
+  const center: string[] = [];
+  if (match.rules.VOLLEYBALL_SETS_TO_WIN > 1) {
+    center.push(`Set ${s.sets1 + s.sets2 + 1} · Sets ${s.sets1}-${s.sets2}`);
+  }
+  const maxTouches = match.rules.VOLLEYBALL_MAX_TOUCHES;
+  const ball = match.ball as BallVolleyball;
+  if (maxTouches > 0) {
+    const side = ball.touchSide === 0 ? '' : ` · P${playerOnSide(match, ball.touchSide)}`;
+    center.push(`Touches ${ball.touches}/${maxTouches}${side}`);
+  }
+  return {
+    p1: `P${playerOnSide(match, 1)}: ${match.score1}`,
+    p2: `P${playerOnSide(match, 2)}: ${match.score2}`,
+    center: center.length > 0 ? center.join(' · ') : undefined,
+  };
+}
+
+// --- SLIME VOLLEYBALL MODE ---
+// The player who won the last point serves from above their slime. First to winningScore by
+// default; win-by-two, point caps, sets and side-out scoring are rule options (see VolleyballScoring).
+export const VOLLEYBALL_MODE: Base.GameModeDefinition = {
+  id: 'VOLLEYBALL',
+  name: 'Slime Volleyball',
+  emoji: '🏐',
+  SlimeClass: SlimeVolleyball,
+  BallClass: BallVolleyball,
+  drawArena: drawVolleyballNet,
+  servingSlime: (match) => (match.server === 1 ? match.p1 : match.p2),
+  nextServer: nextVolleyballServer,
+  checkWinner: checkVolleyballWinner,
+  createModeState: createVolleyballState,
+  onPoint: onVolleyballPoint,
+  handlePoint: handleVolleyballPoint,
+  scoreDisplay: volleyballScoreDisplay,
+  resultText: volleyballResultText,
+  createAI: (rules, _match, difficulty, seed) => new VolleyballAI(rules, difficulty, seed),
+};
@@ -0,0 +1,47 @@
+import * as Base from '../base/index.js';
+import type * as AI from '../ai/index.js';
+import { SlimeVolleyball } from './SlimeVolleyball.js';
+import { BallVolleyball } from './BallVolleyball.js';
+
+export interface VolleyballRolloutMetrics {
+  netCrossings: number;
+  endNoCrossTicks: number;
+  maxNoCrossTicks: number;
+  ourSideTicks: number; // ball on the perspective player's half
+  oppSideTicks: number; // ball on the opponent's half
+  prevSide: 'LEFT' | 'RIGHT';
+}
+
+function ballSide(world: AI.RolloutWorld): 'LEFT' | 'RIGHT' {
+  return world.ball.x < Base.CONFIG.internalWidth / 2 ? 'LEFT' : 'RIGHT';
+}
+
+// Volleyball rollouts: the ball landing ends the rollout (landing on the opponent's half is a 'win').
+// Metrics track net crossings so the AI can penalize plans that keep the ball on its own side.
+export const VOLLEYBALL_ROLLOUT: AI.RolloutMode<VolleyballRolloutMetrics> = {
+  SlimeClass: SlimeVolleyball,
+  BallClass: BallVolleyball,
+
+  createMetrics: (world) => ({
+    netCrossings: 0,
+    endNoCrossTicks: 0,
+    maxNoCrossTicks: 0,
+    ourSideTicks: 0,
+    oppSideTicks: 0,
+    prevSide: ballSide(world),
+  }),
+
+  updateMetrics: (metrics, world) => {
+    const side = ballSide(world);
+    if (side !== metrics.prevSide) {
+      metrics.netCrossings++;
+      metrics.endNoCrossTicks = 0;
+      metrics.prevSide = side;
+    } else {
+      metrics.endNoCrossTicks++;
+      if (metrics.endNoCrossTicks > metrics.maxNoCrossTicks) metrics.maxNoCrossTicks = metrics.endNoCrossTicks;
+    }
+    const ourSide = world.perspective === 2 ? 'RIGHT' : 'LEFT';
+    if (side === ourSide) metrics.ourSideTicks++; else metrics.oppSideTicks++;
+  },
+};
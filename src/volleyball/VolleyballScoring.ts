@@ -0,0 +1,72 @@
+import * as Base from '../base/index.js';
+import type { Match } from '../base/Match.js';
+
+// --- VOLLEYBALL SCORING (Sets, Win by Two, Side-Out) ---
+// match.score1/score2 are the current set's points by side; modeState holds the sets won by each
+// side and whether the players have switched ends. A set goes to the first side at winningScore
+// with a VOLLEYBALL_WIN_BY lead (or at VOLLEYBALL_POINT_CAP regardless); the match to the first
+// to VOLLEYBALL_SETS_TO_WIN sets. Classic rules (win by 1, no cap, one set) are first to winningScore.
+export function createVolleyballState(): Base.ModeState {
+  return { sets1: 0, sets2: 0, swapped: 0 };
+}
+
+// Player number on a side of the net (they swap with VOLLEYBALL_SWITCH_SIDES)
+export function playerOnSide(match: Match, side: 1 | 2): 1 | 2 {
+  if (!match.modeState.swapped) return side;
+  return side === 1 ? 2 : 1;
+}
+
+function winsSet(points: number, otherPoints: number, rules: Base.RuleSet): boolean {
+  if (points < rules.winningScore) return false;
+  if (rules.VOLLEYBALL_POINT_CAP > 0 && points >= rules.VOLLEYBALL_POINT_CAP) return true;
+  return points - otherPoints >= rules.VOLLEYBALL_WIN_BY;
+}
+
+export function onVolleyballPoint(match: Match, scoringPlayer: 1 | 2): void {
+  const s = match.modeState;
+  const points = scoringPlayer === 1 ? match.score1 : match.score2;
+  const otherPoints = scoringPlayer === 1 ? match.score2 : match.score1;
+  if (!winsSet(points, otherPoints, match.rules)) return;
+
+  s[`sets${scoringPlayer}`]++;
+  if (s[`sets${scoringPlayer}`] >= match.rules.VOLLEYBALL_SETS_TO_WIN) return; // keep the final score
+
+  match.score1 = 0;
+  match.score2 = 0;
+  if (match.rules.VOLLEYBALL_SWITCH_SIDES) {
+    [s.sets1, s.sets2] = [s.sets2, s.sets1];
+    s.swapped = s.swapped ? 0 : 1;
+    match.events.emit('sidesSwitched', { swapped: s.swapped === 1 });
+  }
+}
+
+export function checkVolleyballWinner(match: Match): 1 | 2 | null {
+  if (match.modeState.sets1 >= match.rules.VOLLEYBALL_SETS_TO_WIN) return 1;
+  if (match.modeState.sets2 >= match.rules.VOLLEYBALL_SETS_TO_WIN) return 2;
+  return null;
+}
+
+// The rally winner serves; a new set (0-0) is served by the loser of the last one,
+// from the side they moved to if the players switched ends.
+export function nextVolleyballServer(match: Match, scoringPlayer: 1 | 2): 1 | 2 {
+  if (match.score1 !== 0 || match.score2 !== 0) return scoringPlayer;
+  if (match.rules.VOLLEYBALL_SWITCH_SIDES) return scoringPlayer;
+  return scoringPlayer === 1 ? 2 : 1;
+}
+
+// Side-out scoring: only the serving side scores. A receiving side that wins the rally gets
+// the serve instead of a point.
+export function handleVolleyballPoint(match: Match, scoringPlayer: 1 | 2): boolean {
+  if (match.rules.VOLLEYBALL_SCORING !== 'sideOut' || scoringPlayer === match.server) return false;
+  match.server = scoringPlayer;
+  match.events.emit('sideOut', { server: scoringPlayer });
+  match.resetRound();
+  return true;
+}
+
+export function volleyballResultText(match: Match): string {
+  if (match.winner === null) return '';
+  const text = `Player ${playerOnSide(match, match.winner)} Wins!`;
+  if (match.rules.VOLLEYBALL_SETS_TO_WIN <= 1) return text;
+  return `${text} (Sets ${match.modeState.sets1}-${match.modeState.sets2})`;
+}
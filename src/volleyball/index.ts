@@ -1,7 +1,9 @@
 export { BallVolleyball } from './BallVolleyball.js';
 export { SlimeVolleyball } from './SlimeVolleyball.js';
 export { VolleyballAI } from './VolleyballAI.js';
-export { VolleyballRolloutSimulator } from './VolleyballRolloutSimulator.js';
-export type { VolleyballWorldSnapshot, P2Action } from './VolleyballRolloutSimulator.js';
+export { VOLLEYBALL_ROLLOUT } from './VolleyballRollout.js';
+export type { VolleyballRolloutMetrics } from './VolleyballRollout.js';
+export { playerOnSide } from './VolleyballScoring.js';
 
 
+export { VOLLEYBALL_MODE } from './VolleyballMode.js';